@@ -0,0 +1,78 @@
+/** 
+ * Diagnostic codes which are reported by plugin itself,
+ * not conflict with typescript and lupos compiler.
+ */
+export enum PluginDiagnosticCode {
+
+	/** `<div>` without `</div>`. */
+	UnclosedTag = 70001,
+
+	/** `<div></span>`. */
+	MismatchedClosingTag,
+
+	/** `</div>` without `<div>`. */
+	StrayClosingTag,
+
+	/** `<br></br>`. */
+	ClosedVoidTag,
+
+	/** `<div a a>`. */
+	DuplicateAttribute,
+
+	/** `<Com>` without `.requiredProp=${...}`. */
+	MissingRequiredProperty,
+
+	/** `.stringProp=${number}`. */
+	PropertyTypeNotAssignable,
+
+	/** `@click=${(e: KeyboardEvent) => {}}`. */
+	EventHandlerNotAssignable,
+
+	/** `@click=${notAFunction}`. */
+	EventHandlerNotCallable,
+
+	/** `<A .notExistProperty=${...}>`. */
+	UnknownComponentProperty,
+
+	/** `<A @notExistEvent=${...}>`. */
+	UnknownComponentEvent,
+
+	/** `<A><div :slot="notExistSlot">`. */
+	UnknownSlotName,
+
+	/** `slotElements = {neverFilled: ...}`. */
+	UnusedSlotElement,
+
+	/** `<Icon .type="notImportedIcon">`. */
+	UnknownIconName,
+
+	/** `<lu:else>` not follows `<lu:if>`, or `<lu:case>` not inside `<lu:switch>`. */
+	MisplacedFlowControlTag,
+
+	/** `<lu:if ${...}>...<lu:else>...<lu:else>`. */
+	DuplicateElseBranch,
+
+	/** `<lu:if>` without `${...}`. */
+	MissingFlowControlCondition,
+
+	/** `<lu:for ${string[]}>${(item: number) => ...}</lu:for>`. */
+	ForRendererParameterNotAssignable,
+
+	/** `protected onConnected() {...}` without `super.onConnected()`. */
+	MissingLifecycleSuperCall,
+
+	/** `render() {this.count++}`, also inside `@computed` and `@watch`. */
+	UnexpectedStateWrite,
+
+	/** `onConnected() {document.addEventListener(...)}` without removing in `onWillDisconnect`. */
+	UnboundGlobalListener,
+
+	/** `this.items.map(({name}) => ...)` inside `render()` or `@computed`. */
+	DestructuredParameterLosesTracking,
+
+	/** `this.renderUser(this.user)`, but parameter `user` is not `Observed<User>`. */
+	UnobservedParameter,
+
+	/** `<lu:for ${items}>${(item) => ...}</lu:for>` when `noImplicitAny` is off. */
+	UnannotatedForRendererParameter,
+}
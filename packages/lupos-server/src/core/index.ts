@@ -1,4 +1,5 @@
 export * from './config'
+export * from './diagnostic-code'
 export * from './global'
 export * from './logger'
 export * from './types'
@@ -1,8 +1,8 @@
 import type * as TS from 'typescript'
 import {analyzeLuposIcons, LuposIcon} from './icons'
-import {Logger, ProjectContext} from '../../core'
+import {Logger, ProjectContext, ts} from '../../core'
 import {LuposBinding, LuposComponent, LuposEvent, LuposProperty} from './types'
-import {Analyzer} from '../../lupos-ts-module'
+import {Analyzer, HTMLNode, TemplateBasis, TemplateSlotPlaceholder} from '../../lupos-ts-module'
 
 
 export class WorkSpaceAnalyzer extends Analyzer {
@@ -13,6 +13,9 @@ export class WorkSpaceAnalyzer extends Analyzer {
 	private icons: Map<string, LuposIcon> = new Map()
 	private updating: boolean = false
 
+	/** Components grouped by their source files, `null` if need to regroup. */
+	private componentsBySourceFile: Map<TS.SourceFile, LuposComponent[]> | null = null
+
 	constructor(context: ProjectContext) {
 		super(context.helper)
 		this.context = context
@@ -21,6 +24,7 @@ export class WorkSpaceAnalyzer extends Analyzer {
 	/** Analyze each ts source file. */
 	protected analyzeTSFile(sourceFile: TS.SourceFile) {
 		super.analyzeTSFile(sourceFile)
+		this.componentsBySourceFile = null
 
 		let icons = analyzeLuposIcons(sourceFile, this.context.helper)
 
@@ -82,6 +86,7 @@ export class WorkSpaceAnalyzer extends Analyzer {
 
 		for (let file of expiredFiles) {
 			this.makeFileExpire(file)
+			this.componentsBySourceFile = null
 		}
 
 		this.files = allFiles
@@ -105,6 +110,25 @@ export class WorkSpaceAnalyzer extends Analyzer {
 		return components
 	}
 
+	/** Get components declared in a source file. */
+	getComponentsBySourceFile(sourceFile: TS.SourceFile): LuposComponent[] {
+		if (!this.componentsBySourceFile) {
+			this.componentsBySourceFile = new Map()
+
+			for (let component of this.components) {
+				let components = this.componentsBySourceFile.get(component.sourceFile)
+				if (!components) {
+					components = []
+					this.componentsBySourceFile.set(component.sourceFile, components)
+				}
+
+				components.push(component)
+			}
+		}
+
+		return this.componentsBySourceFile.get(sourceFile) ?? []
+	}
+
 	/** 
 	 * Get properties for component, and name starts with label.
 	 * `label` can be empty, then will return all properties.
@@ -131,6 +155,94 @@ export class WorkSpaceAnalyzer extends Analyzer {
 		return [...properties.values()]
 	}
 
+	/** 
+	 * Get public properties of component which must be provided by template,
+	 * they have no `?` or `!` mark and initializer, and not accept `undefined`.
+	 * Properties declared in `.d.ts` files are ignored, they lose initializers.
+	 */
+	getComponentRequiredProperties(component: LuposComponent): LuposProperty[] {
+		if (component.sourceFile.isDeclarationFile) {
+			return []
+		}
+
+		return this.getComponentPropertiesForCompletion(component, '').filter(property => {
+			let declaration = property.nameNode.parent
+			if (!ts.isPropertyDeclaration(declaration) || declaration.getSourceFile().isDeclarationFile) {
+				return false
+			}
+
+			// `value!: T` is assigned in `onCreated` or constructor.
+			if (declaration.questionToken || declaration.exclamationToken || declaration.initializer) {
+				return false
+			}
+
+			if (this.isAssignedInConstructor(declaration)) {
+				return false
+			}
+
+			let types = property.type.isUnion() ? property.type.types : [property.type]
+			return !types.some(type => type.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Any | ts.TypeFlags.Unknown))
+		})
+	}
+
+	/** Whether property is definitely assigned like `this.value = ...` by top level statements of constructor. */
+	private isAssignedInConstructor(declaration: TS.PropertyDeclaration): boolean {
+		let name = declaration.name
+		if (!ts.isIdentifier(name) && !ts.isPrivateIdentifier(name)) {
+			return false
+		}
+
+		let constructor = declaration.parent.members.find(ts.isConstructorDeclaration)
+		if (!constructor?.body) {
+			return false
+		}
+
+		return constructor.body.statements.some(statement => {
+			return ts.isExpressionStatement(statement)
+				&& ts.isBinaryExpression(statement.expression)
+				&& statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+				&& ts.isPropertyAccessExpression(statement.expression.left)
+				&& statement.expression.left.expression.kind === ts.SyntaxKind.ThisKeyword
+				&& statement.expression.left.name.text === name.text
+		})
+	}
+
+	/** 
+	 * Whether all the super classes of component have been analyzed,
+	 * so can know all the properties and events of it.
+	 * Walking ends at a class without super class or extends `Component`.
+	 */
+	isComponentShapeKnown(component: LuposComponent): boolean {
+		let components = [...this.walkComponents(component)]
+		let topmost = components[components.length - 1]
+		let extendsClause = topmost.declaration.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)
+		let superExp = extendsClause?.types[0]?.expression
+
+		if (!superExp) {
+			return true
+		}
+
+		return ts.isIdentifier(superExp) && superExp.text === 'Component'
+	}
+
+	/** 
+	 * Get the component whose slot element would be filled by `:slot` of a node,
+	 * it's the closest ancestral component, or the component that renders template.
+	 */
+	getSlotOwnerComponent(node: HTMLNode, template: TemplateBasis): LuposComponent | null {
+		let parent = node.parent
+
+		while (parent) {
+			if (parent.tagName && TemplateSlotPlaceholder.isComponent(parent.tagName)) {
+				return this.getComponentByTagName(parent.tagName, template)
+			}
+
+			parent = parent.parent
+		}
+
+		return template.component ? this.getComponentByDeclaration(template.component) : null
+	}
+
 	/** 
 	 * Get all refs or slots properties outer class declaration contains given node.
 	 * `label` can be empty, then will return all properties.
@@ -190,6 +302,77 @@ export class WorkSpaceAnalyzer extends Analyzer {
 	}
 
 
+	/** 
+	 * Get type of DOM event from global `HTMLElementEventMap`,
+	 * like `MouseEvent` for `click`.
+	 */
+	getDOMEventType(name: string, location: TS.Node): TS.Type | undefined {
+		let typeChecker = this.context.typeChecker
+		let mapSymbol = typeChecker.resolveName('HTMLElementEventMap', location, ts.SymbolFlags.Interface, false)
+		if (!mapSymbol) {
+			return undefined
+		}
+
+		let eventSymbol = typeChecker.getDeclaredTypeOfSymbol(mapSymbol).getProperty(name)
+		if (!eventSymbol) {
+			return undefined
+		}
+
+		return typeChecker.getTypeOfSymbol(eventSymbol)
+	}
+
+	/** 
+	 * Get item type of an array or iterable type,
+	 * like `T` for `T[]`, `Set<T>`, `Iterable<T>`.
+	 */
+	getIterableItemType(type: TS.Type): TS.Type | undefined {
+		let typeChecker = this.context.typeChecker
+		let indexType = typeChecker.getIndexTypeOfType(type, ts.IndexKind.Number)
+		if (indexType) {
+			return indexType
+		}
+
+		// `[Symbol.iterator]().next()`.
+		let iteratorSymbol = this.getIteratorPropertyOfType(type)
+		let iteratorType = iteratorSymbol ? typeChecker.getTypeOfSymbol(iteratorSymbol).getCallSignatures()[0]?.getReturnType() : undefined
+		let nextSymbol = iteratorType?.getProperty('next')
+		let resultType = nextSymbol ? typeChecker.getTypeOfSymbol(nextSymbol).getCallSignatures()[0]?.getReturnType() : undefined
+
+		if (!resultType) {
+			return undefined
+		}
+
+		// Exclude `{done: true, value: TReturn}`.
+		let results = resultType.isUnion() ? resultType.types : [resultType]
+		let yieldResult = results.find(result => {
+			let doneSymbol = result.getProperty('done')
+			if (!doneSymbol) {
+				return true
+			}
+
+			let doneType = typeChecker.getTypeOfSymbol(doneSymbol)
+			return !(doneType.flags & ts.TypeFlags.BooleanLiteral) || doneType !== typeChecker.getTrueType()
+		})
+
+		let valueSymbol = yieldResult?.getProperty('value')
+		return valueSymbol ? typeChecker.getTypeOfSymbol(valueSymbol) : undefined
+	}
+
+	/** Get `[Symbol.iterator]` property of a type, by the unique symbol type of `Symbol.iterator`. */
+	private getIteratorPropertyOfType(type: TS.Type): TS.Symbol | undefined {
+		let typeChecker = this.context.typeChecker
+		let symbolConstructor = typeChecker.resolveName('Symbol', undefined, ts.SymbolFlags.Value, false)
+		let iteratorKeySymbol = symbolConstructor ? typeChecker.getTypeOfSymbol(symbolConstructor).getProperty('iterator') : undefined
+		let iteratorKeyType = iteratorKeySymbol ? typeChecker.getTypeOfSymbol(iteratorKeySymbol) : undefined
+
+		if (!iteratorKeyType || !(iteratorKeyType.flags & ts.TypeFlags.UniqueESSymbol)) {
+			return undefined
+		}
+
+		let escapedName = (iteratorKeyType as TS.UniqueESSymbolType).escapedName
+		return type.getProperties().find(symbol => symbol.escapedName === escapedName)
+	}
+
 	/** Get a icon from it's defined file name. */
 	getIcon(name: string): LuposIcon | null {
 		return this.icons.get(name) || null
@@ -0,0 +1,343 @@
+import type * as TS from 'typescript'
+import {LuposComponent, WorkSpaceAnalyzer} from './analyzer'
+import {findDestructuredCallbackParameters, getLifecycleMethodsMissingSuperCall, getUnboundGlobalListeners} from './class-diagnostics'
+import {getIndentUnit, getNodeIndent} from './utils'
+import {PluginDiagnosticCode, ProjectContext, ts} from '../core'
+
+
+/** Provide code fixes of component class declarations, not templates. */
+export class LuposClassCodeFixes {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+
+	constructor(analyzer: WorkSpaceAnalyzer) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+	}
+
+	/** Get all diagnostic codes which can be fixed. */
+	getSupportedCodes(): number[] {
+		return [
+			PluginDiagnosticCode.MissingLifecycleSuperCall,
+			PluginDiagnosticCode.UnboundGlobalListener,
+			PluginDiagnosticCode.DestructuredParameterLosesTracking,
+		]
+	}
+
+	/** `start` and `end` are global offsets. */
+	getCodeFixes(sourceFile: TS.SourceFile, start: number, end: number, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] {
+		let component = this.getComponentContains(sourceFile, start, end)
+		let actions: TS.CodeFixAction[] = []
+
+		if (!component) {
+			return actions
+		}
+
+		if (errorCodes.includes(PluginDiagnosticCode.MissingLifecycleSuperCall)) {
+			actions.push(...this.getCodeFixOfLifecycleSuperCall(component, start, end))
+		}
+
+		if (errorCodes.includes(PluginDiagnosticCode.UnboundGlobalListener)) {
+			actions.push(...this.getCodeFixOfGlobalListener(component, start, end))
+		}
+
+		if (errorCodes.includes(PluginDiagnosticCode.DestructuredParameterLosesTracking)) {
+			actions.push(...this.getCodeFixOfDestructuredParameter(component, start, end))
+		}
+
+		return actions
+	}
+
+	/** Get component whose class declaration contains range. */
+	private getComponentContains(sourceFile: TS.SourceFile, start: number, end: number): LuposComponent | undefined {
+		return this.analyzer.getComponentsBySourceFile(sourceFile).find(component => {
+			return component.declaration.getStart() <= start
+				&& component.declaration.end >= end
+		})
+	}
+
+	/** Insert `super.onXXX()` as the first statement, or the last for `onWillDisconnect`. */
+	private getCodeFixOfLifecycleSuperCall(component: LuposComponent, start: number, end: number): TS.CodeFixAction[] {
+		let method = getLifecycleMethodsMissingSuperCall(component.declaration, this.context.typeChecker)
+			.find(method => method.name.getStart() <= start && method.name.end >= end)
+
+		if (!method) {
+			return []
+		}
+
+		let name = method.name.getText()
+		let body = method.body!
+		let statements = body.statements
+		let superCallText = `super.${name}()`
+		let textChange: TS.TextChange
+
+		// `{}`
+		if (statements.length === 0) {
+			let methodIndent = getNodeIndent(method)
+			let indentUnit = getIndentUnit(component.sourceFile)
+
+			textChange = {
+				span: {
+					start: body.getStart() + 1,
+					length: body.end - 1 - (body.getStart() + 1),
+				},
+				newText: `\n${methodIndent}${indentUnit}${superCallText}\n${methodIndent}`,
+			}
+		}
+
+		// `super.onWillDisconnect()` at last.
+		else if (name === 'onWillDisconnect') {
+			let lastStatement = statements[statements.length - 1]
+
+			textChange = {
+				span: {
+					start: lastStatement.end,
+					length: 0,
+				},
+				newText: `\n\n${getNodeIndent(lastStatement)}${superCallText}`,
+			}
+		}
+
+		// `super.onXXX()` at first.
+		else {
+			let firstStatement = statements[0]
+
+			textChange = {
+				span: {
+					start: firstStatement.getStart(),
+					length: 0,
+				},
+				newText: `${superCallText}\n\n${getNodeIndent(firstStatement)}`,
+			}
+		}
+
+		return [{
+			fixName: `Add super call`,
+			description: `Add "${superCallText}"`,
+			changes: [{
+				fileName: component.sourceFile.fileName,
+				textChanges: [textChange],
+			}],
+		}]
+	}
+
+	/** Insert unbind call into `onWillDisconnect`, before `super.onWillDisconnect()`, or create the method. */
+	private getCodeFixOfGlobalListener(component: LuposComponent, start: number, end: number): TS.CodeFixAction[] {
+		let listener = getUnboundGlobalListeners(component.declaration, this.context.typeChecker)
+			.find(listener => listener.call.getStart() <= start && listener.call.end >= end)
+
+		if (!listener || !listener.unbindText) {
+			return []
+		}
+
+		let unbindText = listener.unbindText
+		let declaration = component.declaration
+
+		let disconnectMethod = declaration.members.find(member => {
+			return ts.isMethodDeclaration(member)
+				&& ts.isIdentifier(member.name)
+				&& member.name.text === 'onWillDisconnect'
+				&& !!member.body
+		}) as TS.MethodDeclaration | undefined
+
+		let textChange: TS.TextChange
+
+		// Create `onWillDisconnect() {...}` after the method which binds listener.
+		if (!disconnectMethod) {
+			let bindMethod = listener.call.parent
+			while (!ts.isMethodDeclaration(bindMethod)) {
+				bindMethod = bindMethod.parent
+			}
+
+			let methodIndent = getNodeIndent(bindMethod)
+			let indentUnit = getIndentUnit(component.sourceFile)
+			let modifierText = bindMethod.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.PublicKeyword) ? 'public' : 'protected'
+
+			textChange = {
+				span: {
+					start: bindMethod.end,
+					length: 0,
+				},
+				newText: `\n\n${methodIndent}${modifierText} onWillDisconnect() {\n`
+					+ `${methodIndent}${indentUnit}${unbindText}\n`
+					+ `${methodIndent}${indentUnit}super.onWillDisconnect()\n`
+					+ `${methodIndent}}`,
+			}
+		}
+
+		else {
+			let body = disconnectMethod.body!
+			let statements = body.statements
+
+			let superCallStatement = statements.find(statement => {
+				return ts.isExpressionStatement(statement)
+					&& ts.isCallExpression(statement.expression)
+					&& ts.isPropertyAccessExpression(statement.expression.expression)
+					&& statement.expression.expression.expression.kind === ts.SyntaxKind.SuperKeyword
+			})
+
+			// `{}`
+			if (statements.length === 0) {
+				let methodIndent = getNodeIndent(disconnectMethod)
+				let indentUnit = getIndentUnit(component.sourceFile)
+
+				textChange = {
+					span: {
+						start: body.getStart() + 1,
+						length: body.end - 1 - (body.getStart() + 1),
+					},
+					newText: `\n${methodIndent}${indentUnit}${unbindText}\n${methodIndent}`,
+				}
+			}
+
+			// Before `super.onWillDisconnect()`.
+			else if (superCallStatement) {
+				textChange = {
+					span: {
+						start: superCallStatement.getStart(),
+						length: 0,
+					},
+					newText: `${unbindText}\n\n${getNodeIndent(superCallStatement)}`,
+				}
+			}
+
+			// At last.
+			else {
+				let lastStatement = statements[statements.length - 1]
+
+				textChange = {
+					span: {
+						start: lastStatement.end,
+						length: 0,
+					},
+					newText: `\n${getNodeIndent(lastStatement)}${unbindText}`,
+				}
+			}
+		}
+
+		return [{
+			fixName: `Unbind listener`,
+			description: `Add "${unbindText}" to "onWillDisconnect"`,
+			changes: [{
+				fileName: component.sourceFile.fileName,
+				textChanges: [textChange],
+			}],
+		}]
+	}
+
+	/** Convert `({name}) => name` to `(item) => item.name`. */
+	private getCodeFixOfDestructuredParameter(component: LuposComponent, start: number, end: number): TS.CodeFixAction[] {
+		let pattern = findDestructuredCallbackParameters(component.declaration)
+			.find(pattern => pattern.getStart() <= start && pattern.end >= end)
+
+		if (!pattern) {
+			return []
+		}
+
+		// Not support `{a = 1}`, `{...rest}`, `{a: {b}}`, `{[key]: a}`.
+		if (pattern.elements.some(element => element.initializer
+			|| element.dotDotDotToken
+			|| !ts.isIdentifier(element.name)
+			|| element.propertyName && ts.isComputedPropertyName(element.propertyName)
+		)) {
+			return []
+		}
+
+		let typeChecker = this.context.typeChecker
+		let fn = pattern.parent.parent as TS.ArrowFunction | TS.FunctionExpression
+		let parameterName = getUniqueName('item', fn.body)
+		let textChanges: TS.TextChange[] = []
+
+		// Binding element symbol -> property access text, like `.name`, `['a-b']`.
+		let propertyAccesses: Map<TS.Symbol, string> = new Map()
+
+		for (let element of pattern.elements) {
+			let symbol = typeChecker.getSymbolAtLocation(element.name)
+			let propertyName = element.propertyName ?? element.name
+
+			if (symbol) {
+				propertyAccesses.set(symbol, ts.isIdentifier(propertyName) ? `.${propertyName.text}` : `[${propertyName.getText()}]`)
+			}
+		}
+
+		textChanges.push({
+			span: {
+				start: pattern.getStart(),
+				length: pattern.getWidth(),
+			},
+			newText: parameterName,
+		})
+
+		let visit = (node: TS.Node) => {
+
+			// `{name}` -> `{name: item.name}`.
+			if (ts.isShorthandPropertyAssignment(node)) {
+				let symbol = typeChecker.getShorthandAssignmentValueSymbol(node)
+				let propertyAccess = symbol ? propertyAccesses.get(symbol) : undefined
+
+				if (propertyAccess) {
+					textChanges.push({
+						span: {
+							start: node.name.getStart(),
+							length: node.name.getWidth(),
+						},
+						newText: `${node.name.text}: ${parameterName}${propertyAccess}`,
+					})
+				}
+			}
+
+			// `name` -> `item.name`.
+			else if (ts.isIdentifier(node)) {
+				let symbol = typeChecker.getSymbolAtLocation(node)
+				let propertyAccess = symbol ? propertyAccesses.get(symbol) : undefined
+
+				if (propertyAccess) {
+					textChanges.push({
+						span: {
+							start: node.getStart(),
+							length: node.getWidth(),
+						},
+						newText: `${parameterName}${propertyAccess}`,
+					})
+				}
+			}
+
+			ts.forEachChild(node, visit)
+		}
+
+		ts.forEachChild(fn.body, visit)
+
+		return [{
+			fixName: `Convert destructured parameter`,
+			description: `Convert to non-destructured parameter "${parameterName}"`,
+			changes: [{
+				fileName: component.sourceFile.fileName,
+				textChanges,
+			}],
+		}]
+	}
+}
+
+
+/** Get a name which is not used as an identifier inside node, like `item`, `item2`. */
+function getUniqueName(name: string, node: TS.Node): string {
+	let usedNames: Set<string> = new Set()
+
+	let visit = (node: TS.Node) => {
+		if (ts.isIdentifier(node)) {
+			usedNames.add(node.text)
+		}
+
+		ts.forEachChild(node, visit)
+	}
+
+	visit(node)
+
+	let uniqueName = name
+	for (let i = 2; usedNames.has(uniqueName); i++) {
+		uniqueName = name + i
+	}
+
+	return uniqueName
+}
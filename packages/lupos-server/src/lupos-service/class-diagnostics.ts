@@ -0,0 +1,653 @@
+import type * as TS from 'typescript'
+import {LuposComponent, WorkSpaceAnalyzer} from './analyzer'
+import {DiagnosticModifier} from '../lupos-ts-module'
+import {PluginConfig, PluginDiagnosticCode, ProjectContext, ts} from '../core'
+
+
+/** Lifecycle methods of component which must call `super.onXXX()` when overriding. */
+export const LifecycleMethodNames = ['onCreated', 'onReady', 'onUpdated', 'onConnected', 'onWillDisconnect']
+
+/** Methods of array, map and set which will mutate themselves. */
+const MutatingMethodNames: Record<string, string[]> = {
+	Array: ['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin'],
+	Map: ['set', 'delete', 'clear'],
+	Set: ['add', 'delete', 'clear'],
+}
+
+/** Array methods whose callbacks are called immediately. */
+const ArrayIterationMethodNames = ['map', 'flatMap', 'forEach', 'filter', 'some', 'every', 'reduce', 'find', 'findIndex']
+
+/** How deep to follow `this.method()` calls when finding state writes. */
+const MaxStateWriteCallDepth = 2
+
+
+/** Lifecycle methods in which global listeners are bound, and should be unbound in `onWillDisconnect`. */
+const ConnectLifecycleMethodNames = ['onConnected']
+
+/** Receivers of `xxx.addEventListener(...)` which are global. */
+const GlobalEventTargetNames = ['document', 'window']
+
+/** Bind method name -> unbind method name. */
+const ListenerUnbindMethodNames: Record<string, string> = {
+	addEventListener: 'removeEventListener',
+	on: 'off',
+}
+
+
+/** A global listener bound in connect-time lifecycle, but not unbound in `onWillDisconnect`. */
+export interface UnboundGlobalListener {
+
+	/** `document.addEventListener(...)`, `emitter.on(...)`. */
+	call: TS.CallExpression
+
+	/** Like `document.removeEventListener(...)`, `null` if handler can't be referenced again. */
+	unbindText: string | null
+}
+
+
+/** A state write expression, or a call which leads to state write. */
+interface StateWrite {
+	node: TS.Node
+	message: string
+}
+
+
+/**
+ * Provide diagnostics of component class declarations, not templates.
+ * Added diagnostics are located in global origin.
+ */
+export class LuposClassDiagnostics {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+
+	constructor(analyzer: WorkSpaceAnalyzer) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+	}
+
+	diagnose(sourceFile: TS.SourceFile, modifier: DiagnosticModifier) {
+		if (sourceFile.isDeclarationFile) {
+			return
+		}
+
+		for (let component of this.analyzer.getComponentsBySourceFile(sourceFile)) {
+			this.diagnoseLifecycleSuperCalls(component, modifier)
+			this.diagnoseStateWrites(component, modifier)
+			this.diagnoseGlobalListeners(component, modifier)
+			this.diagnoseLostTracking(component, modifier)
+		}
+	}
+
+	/** `onXXX() {...}` must call `super.onXXX()`. */
+	private diagnoseLifecycleSuperCalls(component: LuposComponent, modifier: DiagnosticModifier) {
+		for (let method of getLifecycleMethodsMissingSuperCall(component.declaration, this.context.typeChecker)) {
+			let name = method.name.getText()
+
+			this.addDiagnostic(
+				modifier,
+				method.name,
+				PluginDiagnosticCode.MissingLifecycleSuperCall,
+				`Lifecycle method "${name}" overrides super class method, but doesn't call "super.${name}()".`,
+				ts.DiagnosticCategory.Warning
+			)
+		}
+	}
+
+	/** Should not write state inside `render()`, `@computed` and `@watch`. */
+	private diagnoseStateWrites(component: LuposComponent, modifier: DiagnosticModifier) {
+		let declaration = component.declaration
+
+		for (let member of declaration.members) {
+			let contextName = getReadonlyContextName(member)
+			if (!contextName) {
+				continue
+			}
+
+			let body = (member as TS.MethodDeclaration | TS.GetAccessorDeclaration).body
+			if (!body) {
+				continue
+			}
+
+			for (let write of this.findStateWrites(body, declaration, 1, new Set([member]))) {
+				this.addDiagnostic(
+					modifier,
+					write.node,
+					PluginDiagnosticCode.UnexpectedStateWrite,
+					`${write.message} inside ${contextName}, which may cause endless updating.`,
+					ts.DiagnosticCategory.Warning
+				)
+			}
+		}
+	}
+
+	/** 
+	 * Find state writes like `this.x = 1`, `this.x++`, `this.list.push(1)`,
+	 * and follow `this.method()` calls of same class.
+	 * Not look into nested functions except callbacks of `list.map(...)`,
+	 * others are not called immediately in most cases.
+	 */
+	private findStateWrites(body: TS.Node, declaration: TS.ClassDeclaration, depth: number, visited: Set<TS.Node>): StateWrite[] {
+		let writes: StateWrite[] = []
+
+		let visit = (node: TS.Node) => {
+			if (ts.isFunctionLike(node) && !isArrayIterationCallback(node, this.context.typeChecker)) {
+				return
+			}
+
+			let write = this.getStateWrite(node)
+			if (write) {
+				writes.push(write)
+			}
+
+			// `this.method()`
+			else if (depth < MaxStateWriteCallDepth && isThisMethodCall(node)) {
+				let name = ((node as TS.CallExpression).expression as TS.PropertyAccessExpression).name.text
+				let method = declaration.members.find(member => {
+					return ts.isMethodDeclaration(member)
+						&& ts.isIdentifier(member.name)
+						&& member.name.text === name
+				}) as TS.MethodDeclaration | undefined
+
+				if (method?.body && !visited.has(method)) {
+					visited.add(method)
+
+					let innerWrite = this.findStateWrites(method.body, declaration, depth + 1, visited)[0]
+					if (innerWrite) {
+						writes.push({
+							node,
+							message: `Calling "this.${name}()" which writes state`,
+						})
+					}
+				}
+			}
+
+			ts.forEachChild(node, visit)
+		}
+
+		ts.forEachChild(body, visit)
+
+		return writes
+	}
+
+	/** 
+	 * Get state write expression, like `this.x = 1`, `this.x++`, `this.list.push(1)`.
+	 * Only properties declared in component classes, and objects of them are state.
+	 */
+	private getStateWrite(node: TS.Node): StateWrite | null {
+
+		// `this.x = 1`, `this.x += 1`
+		if (ts.isBinaryExpression(node)
+			&& node.operatorToken.kind >= ts.SyntaxKind.FirstAssignment
+			&& node.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+			&& this.isStateReference(node.left)
+		) {
+			return {node, message: `Writing "${node.left.getText()}"`}
+		}
+
+		// `this.x++`, `--this.x`
+		if ((ts.isPrefixUnaryExpression(node) || ts.isPostfixUnaryExpression(node))
+			&& (node.operator === ts.SyntaxKind.PlusPlusToken || node.operator === ts.SyntaxKind.MinusMinusToken)
+			&& this.isStateReference(node.operand)
+		) {
+			return {node, message: `Writing "${node.operand.getText()}"`}
+		}
+
+		// `delete this.x.y`
+		if (ts.isDeleteExpression(node) && this.isStateReference(node.expression)) {
+			return {node, message: `Deleting "${node.expression.getText()}"`}
+		}
+
+		// `this.list.push(1)`
+		if (ts.isCallExpression(node)
+			&& ts.isPropertyAccessExpression(node.expression)
+			&& this.isStateReference(node.expression.expression)
+		) {
+			let receiver = node.expression.expression
+			let methodName = node.expression.name.text
+			let typeName = this.context.typeChecker.getTypeAtLocation(receiver).getSymbol()?.name
+
+			if (typeName && MutatingMethodNames[typeName]?.includes(methodName)) {
+				return {node, message: `Mutating "${receiver.getText()}" by "${methodName}()"`}
+			}
+		}
+
+		return null
+	}
+
+	/** 
+	 * `this.x` whose `x` is a property declared in component class,
+	 * or `this.x.y`, `this.x[0]` whose `this.x` is an observed object.
+	 */
+	private isStateReference(node: TS.Node): boolean {
+		if (ts.isParenthesizedExpression(node) || ts.isNonNullExpression(node)) {
+			return this.isStateReference(node.expression)
+		}
+
+		if (!ts.isPropertyAccessExpression(node) && !ts.isElementAccessExpression(node)) {
+			return false
+		}
+
+		let exp: TS.Expression = node.expression
+		while (ts.isParenthesizedExpression(exp) || ts.isNonNullExpression(exp)) {
+			exp = exp.expression
+		}
+
+		if (exp.kind === ts.SyntaxKind.ThisKeyword) {
+			return this.isStateProperty(node)
+		}
+
+		return this.isStateReference(exp)
+			&& this.isObservedType(this.context.typeChecker.getTypeAtLocation(exp))
+	}
+
+	/** `this.x` whose `x` is a not static property declared in component class, not in declaration files like `el`. */
+	private isStateProperty(node: TS.PropertyAccessExpression | TS.ElementAccessExpression): boolean {
+		let nameNode = ts.isPropertyAccessExpression(node) ? node.name : node.argumentExpression
+		let declaration = this.context.typeChecker.getSymbolAtLocation(nameNode)?.valueDeclaration
+
+		return !!declaration
+			&& ts.isPropertyDeclaration(declaration)
+			&& !declaration.getSourceFile().isDeclarationFile
+			&& !(ts.getCombinedModifierFlags(declaration) & ts.ModifierFlags.Static)
+	}
+
+	/** Plain objects, arrays, maps and sets are observed, but objects of built-in types like DOM elements are not. */
+	private isObservedType(type: TS.Type): boolean {
+		type = this.context.typeChecker.getNonNullableType(type)
+		if (!(type.flags & ts.TypeFlags.Object)) {
+			return false
+		}
+
+		let symbol = type.getSymbol()
+		if (!symbol || MutatingMethodNames[symbol.name]) {
+			return true
+		}
+
+		return !symbol.declarations?.some(declaration => declaration.getSourceFile().hasNoDefaultLib)
+	}
+
+	/** Global listeners bound in `onConnected` must be unbound in `onWillDisconnect`. */
+	private diagnoseGlobalListeners(component: LuposComponent, modifier: DiagnosticModifier) {
+		for (let listener of getUnboundGlobalListeners(component.declaration, this.context.typeChecker)) {
+			let methodName = (listener.call.expression as TS.PropertyAccessExpression).name.text
+			let unbindName = ListenerUnbindMethodNames[methodName]
+
+			let message = listener.unbindText
+				? `Listener bound by "${methodName}()" is not unbound by "${unbindName}()" in "onWillDisconnect", which may cause memory leaks.`
+				: `Listener bound by "${methodName}()" can't be unbound, should use a handler which can be referenced again in "onWillDisconnect".`
+
+			this.addDiagnostic(
+				modifier,
+				listener.call,
+				PluginDiagnosticCode.UnboundGlobalListener,
+				message,
+				ts.DiagnosticCategory.Warning
+			)
+		}
+	}
+
+	/** 
+	 * Inside `render()` and `@computed`, destructuring callback parameters,
+	 * or passing observed values to not observed parameters loses tracking.
+	 */
+	private diagnoseLostTracking(component: LuposComponent, modifier: DiagnosticModifier) {
+		let declaration = component.declaration
+
+		for (let member of declaration.members) {
+			let contextName = getReadonlyContextName(member)
+			if (!contextName || contextName.startsWith('@watch')) {
+				continue
+			}
+
+			let body = (member as TS.MethodDeclaration | TS.GetAccessorDeclaration).body
+			if (!body) {
+				continue
+			}
+
+			for (let pattern of findDestructuredCallbackParameters(body)) {
+				let names = pattern.elements.map(element => element.name.getText())
+
+				this.addDiagnostic(
+					modifier,
+					pattern,
+					PluginDiagnosticCode.DestructuredParameterLosesTracking,
+					`Destructuring parameter inside ${contextName} loses tracking of ${names.map(name => `"${name}"`).join(', ')}, should read properties from parameter instead.`,
+					ts.DiagnosticCategory.Warning
+				)
+			}
+
+			for (let {argument, parameter, methodName} of this.findUnobservedArguments(body, declaration)) {
+				let typeText = this.context.typeChecker.typeToString(this.context.typeChecker.getTypeAtLocation(argument))
+
+				this.addDiagnostic(
+					modifier,
+					argument,
+					PluginDiagnosticCode.UnobservedParameter,
+					`Passing observed "${argument.getText()}" to parameter "${parameter.name.getText()}" of "this.${methodName}()" loses tracking inside ${contextName}, should declare parameter type as "Observed<${typeText}>".`,
+					ts.DiagnosticCategory.Warning
+				)
+			}
+		}
+	}
+
+	/** Find observed arguments of `this.method(this.x)`, whose parameters are not declared as `Observed<T>`. */
+	private findUnobservedArguments(body: TS.Node, declaration: TS.ClassDeclaration) {
+		let typeChecker = this.context.typeChecker
+		let found: {argument: TS.Expression, parameter: TS.ParameterDeclaration, methodName: string}[] = []
+
+		let visit = (node: TS.Node) => {
+			if (isThisMethodCall(node)) {
+				let call = node as TS.CallExpression
+				let methodName = (call.expression as TS.PropertyAccessExpression).name.text
+
+				let method = declaration.members.find(member => {
+					return ts.isMethodDeclaration(member)
+						&& ts.isIdentifier(member.name)
+						&& member.name.text === methodName
+				}) as TS.MethodDeclaration | undefined
+
+				for (let i = 0; method && i < Math.min(call.arguments.length, method.parameters.length); i++) {
+					let argument = call.arguments[i]
+					let parameter = method.parameters[i]
+
+					// Only objects are observed, primitive values are tracked when reading.
+					if (!isThisPropertyReference(argument)
+						|| !(typeChecker.getNonNullableType(typeChecker.getTypeAtLocation(argument)).flags & ts.TypeFlags.Object)
+						|| isObservedTypeNode(parameter.type)
+					) {
+						continue
+					}
+
+					found.push({argument, parameter, methodName})
+				}
+			}
+
+			ts.forEachChild(node, visit)
+		}
+
+		ts.forEachChild(body, visit)
+
+		return found
+	}
+
+	private addDiagnostic(
+		modifier: DiagnosticModifier,
+		node: TS.Node,
+		code: PluginDiagnosticCode,
+		message: string,
+		category: TS.DiagnosticCategory = ts.DiagnosticCategory.Error
+	) {
+		modifier.addDiagnostic({
+			code,
+			messageText: message,
+			category,
+			file: node.getSourceFile(),
+			start: node.getStart(),
+			length: node.getWidth(),
+			source: PluginConfig.pluginName,
+		})
+	}
+}
+
+
+/** Get overridden lifecycle methods which don't call `super.onXXX()`. */
+export function getLifecycleMethodsMissingSuperCall(declaration: TS.ClassDeclaration, typeChecker: TS.TypeChecker): TS.MethodDeclaration[] {
+	let classType = typeChecker.getTypeAtLocation(declaration)
+	let baseTypes = classType.isClassOrInterface() ? typeChecker.getBaseTypes(classType) : []
+	let methods: TS.MethodDeclaration[] = []
+
+	for (let member of declaration.members) {
+		if (!ts.isMethodDeclaration(member) || !member.body || !ts.isIdentifier(member.name)) {
+			continue
+		}
+
+		let name = member.name.text
+		if (!LifecycleMethodNames.includes(name)) {
+			continue
+		}
+
+		// Super class must have this method.
+		if (!baseTypes.some(type => type.getProperty(name))) {
+			continue
+		}
+
+		if (!hasSuperCall(member.body, name)) {
+			methods.push(member)
+		}
+	}
+
+	return methods
+}
+
+
+/** Get global listeners bound in connect-time lifecycle methods, but not unbound in `onWillDisconnect`. */
+export function getUnboundGlobalListeners(declaration: TS.ClassDeclaration, typeChecker: TS.TypeChecker): UnboundGlobalListener[] {
+	let bindCalls: TS.CallExpression[] = []
+	let unbindKeys: Set<string> = new Set()
+	let listeners: UnboundGlobalListener[] = []
+
+	for (let member of declaration.members) {
+		if (!ts.isMethodDeclaration(member) || !member.body || !ts.isIdentifier(member.name)) {
+			continue
+		}
+
+		let name = member.name.text
+
+		if (ConnectLifecycleMethodNames.includes(name)) {
+			bindCalls.push(...findCalls(member.body).filter(call => isGlobalListenerBinding(call, typeChecker)))
+		}
+		else if (name === 'onWillDisconnect') {
+			for (let call of findCalls(member.body)) {
+				unbindKeys.add(getListenerKey(call))
+			}
+		}
+	}
+
+	for (let call of bindCalls) {
+		let methodName = (call.expression as TS.PropertyAccessExpression).name.text
+		let unbindName = ListenerUnbindMethodNames[methodName]
+		let handler = call.arguments[1]
+
+		// `addEventListener('click', () => {...})`, `on('click', this.onClick.bind(this))`.
+		if (handler && (ts.isFunctionLike(handler) || isBindCall(handler))) {
+			listeners.push({call, unbindText: null})
+		}
+		else if (!unbindKeys.has(getListenerKey(call, unbindName))) {
+			let receiverText = (call.expression as TS.PropertyAccessExpression).expression.getText()
+			let argumentTexts = call.arguments.map(arg => arg.getText())
+
+			listeners.push({call, unbindText: `${receiverText}.${unbindName}(${argumentTexts.join(', ')})`})
+		}
+	}
+
+	return listeners
+}
+
+
+/** Find all calls like `a.b()` inside a function body, not look into nested functions. */
+function findCalls(body: TS.Node): TS.CallExpression[] {
+	let calls: TS.CallExpression[] = []
+
+	let visit = (node: TS.Node) => {
+		if (ts.isFunctionLike(node) && !ts.isArrowFunction(node)) {
+			return
+		}
+
+		if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+			calls.push(node)
+		}
+
+		ts.forEachChild(node, visit)
+	}
+
+	ts.forEachChild(body, visit)
+
+	return calls
+}
+
+
+/** `document.addEventListener(...)`, `window.addEventListener(...)`, or `emitter.on(...)` of an event firer. */
+function isGlobalListenerBinding(call: TS.CallExpression, typeChecker: TS.TypeChecker): boolean {
+	let exp = call.expression as TS.PropertyAccessExpression
+	let receiver = exp.expression
+	let methodName = exp.name.text
+
+	if (methodName === 'addEventListener') {
+		return ts.isIdentifier(receiver) && GlobalEventTargetNames.includes(receiver.text)
+	}
+
+	// Listening events of itself needs no unbinding.
+	if (methodName === 'on' && receiver.kind !== ts.SyntaxKind.ThisKeyword) {
+		return !!typeChecker.getTypeAtLocation(receiver).getProperty('off')
+	}
+
+	return false
+}
+
+
+/** 
+ * Get key to match bind and unbind calls, like `document.removeEventListener('click',this.onClick)`.
+ * Only event name and handler of `addEventListener` are compared.
+ */
+function getListenerKey(call: TS.CallExpression, methodName: string = (call.expression as TS.PropertyAccessExpression).name.text): string {
+	let receiver = (call.expression as TS.PropertyAccessExpression).expression
+	let args = methodName === 'addEventListener' || methodName === 'removeEventListener'
+		? call.arguments.slice(0, 2)
+		: call.arguments
+
+	return `${receiver.getText()}.${methodName}(${args.map(arg => arg.getText()).join(',')})`.replace(/\s+/g, '')
+}
+
+
+/** `this.onClick.bind(this)`. */
+function isBindCall(node: TS.Node): boolean {
+	return ts.isCallExpression(node)
+		&& ts.isPropertyAccessExpression(node.expression)
+		&& node.expression.name.text === 'bind'
+}
+
+
+/** Find parameters like `({name}) => ...` of callbacks, which are passed as arguments. */
+export function findDestructuredCallbackParameters(body: TS.Node): TS.ObjectBindingPattern[] {
+	let patterns: TS.ObjectBindingPattern[] = []
+
+	let visit = (node: TS.Node) => {
+		if ((ts.isArrowFunction(node) || ts.isFunctionExpression(node))
+			&& ts.isCallExpression(node.parent)
+			&& node.parent.arguments.includes(node)
+		) {
+			for (let parameter of node.parameters) {
+				if (ts.isObjectBindingPattern(parameter.name)) {
+					patterns.push(parameter.name)
+				}
+			}
+		}
+
+		ts.forEachChild(node, visit)
+	}
+
+	ts.forEachChild(body, visit)
+
+	return patterns
+}
+
+
+/** `Observed<T>`, or union contains it. */
+function isObservedTypeNode(typeNode: TS.TypeNode | undefined): boolean {
+	if (!typeNode) {
+		return false
+	}
+
+	if (ts.isUnionTypeNode(typeNode)) {
+		return typeNode.types.some(isObservedTypeNode)
+	}
+
+	return ts.isTypeReferenceNode(typeNode)
+		&& ts.isIdentifier(typeNode.typeName)
+		&& typeNode.typeName.text === 'Observed'
+}
+
+
+/** Whether contains `super.name()`. */
+function hasSuperCall(node: TS.Node, name: string): boolean {
+	if (ts.isCallExpression(node)
+		&& ts.isPropertyAccessExpression(node.expression)
+		&& node.expression.expression.kind === ts.SyntaxKind.SuperKeyword
+		&& node.expression.name.text === name
+	) {
+		return true
+	}
+
+	// Not look into nested functions.
+	if (ts.isFunctionLike(node) && !ts.isArrowFunction(node)) {
+		return false
+	}
+
+	return ts.forEachChild(node, child => hasSuperCall(child, name) || undefined) ?? false
+}
+
+
+/** Get name like `render()`, `@computed x`, `@watch x()` if member should not write state. */
+function getReadonlyContextName(member: TS.ClassElement): string | null {
+	if (!member.name || !ts.isIdentifier(member.name)) {
+		return null
+	}
+
+	let name = member.name.text
+	let decoratorNames = (ts.canHaveDecorators(member) ? ts.getDecorators(member) ?? [] : []).map(decorator => {
+		let exp = ts.isCallExpression(decorator.expression) ? decorator.expression.expression : decorator.expression
+		return ts.isIdentifier(exp) ? exp.text : ''
+	})
+
+	if (ts.isMethodDeclaration(member) && name === 'render') {
+		return 'render()'
+	}
+	else if (ts.isGetAccessorDeclaration(member) && decoratorNames.includes('computed')) {
+		return `@computed ${name}`
+	}
+	else if (ts.isMethodDeclaration(member) && decoratorNames.includes('watch')) {
+		return `@watch ${name}()`
+	}
+
+	return null
+}
+
+
+/** `this.x`, `this.x.y`, `this.x[0]`. */
+function isThisPropertyReference(node: TS.Node): boolean {
+	if (ts.isParenthesizedExpression(node) || ts.isNonNullExpression(node)) {
+		return isThisPropertyReference(node.expression)
+	}
+
+	if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+		return node.expression.kind === ts.SyntaxKind.ThisKeyword
+			|| isThisPropertyReference(node.expression)
+	}
+
+	return false
+}
+
+
+/** Callback of `list.map(...)`, `list.forEach(...)`, etc, and `list` must be an array. */
+function isArrayIterationCallback(node: TS.Node, typeChecker: TS.TypeChecker): boolean {
+	if (!(ts.isArrowFunction(node) || ts.isFunctionExpression(node))
+		|| !ts.isCallExpression(node.parent)
+		|| node.parent.arguments[0] !== node
+		|| !ts.isPropertyAccessExpression(node.parent.expression)
+		|| !ArrayIterationMethodNames.includes(node.parent.expression.name.text)
+	) {
+		return false
+	}
+
+	let receiverType = typeChecker.getNonNullableType(typeChecker.getTypeAtLocation(node.parent.expression.expression))
+	return typeChecker.isArrayType(receiverType) || typeChecker.isTupleType(receiverType)
+}
+
+
+/** `this.method()`. */
+function isThisMethodCall(node: TS.Node): boolean {
+	return ts.isCallExpression(node)
+		&& ts.isPropertyAccessExpression(node.expression)
+		&& node.expression.expression.kind === ts.SyntaxKind.ThisKeyword
+}
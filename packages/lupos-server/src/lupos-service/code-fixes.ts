@@ -2,8 +2,8 @@ import type * as TS from 'typescript'
 import {WorkSpaceAnalyzer} from './analyzer'
 import {DiagnosticCode, TemplatePart, TemplatePartPiece, TemplatePartPieceType, TemplatePartType} from '../lupos-ts-module'
 import {Template} from '../template-service'
-import {ProjectContext, ts} from '../core'
-import {pathJoin, pathRelative} from './utils'
+import {PluginDiagnosticCode, ProjectContext, ts} from '../core'
+import {getClosestNames, getMemberIndent, getNodeIndent, getPropertyNamesOfNode, pathJoin, pathRelative} from './utils'
 
 
 /** Provide lupos code-fix service. */
@@ -17,22 +17,85 @@ export class LuposCodeFixes {
 		this.context = analyzer.context
 	}
 	
+	/** Get all diagnostic codes which can be fixed. */
+	getSupportedCodes(): number[] {
+		return [
+			DiagnosticCode.MissingImportOrDeclaration,
+			PluginDiagnosticCode.MissingRequiredProperty,
+			PluginDiagnosticCode.UnknownComponentProperty,
+			PluginDiagnosticCode.UnknownComponentEvent,
+			PluginDiagnosticCode.UnknownSlotName,
+			PluginDiagnosticCode.UnknownIconName,
+			PluginDiagnosticCode.MisplacedFlowControlTag,
+			PluginDiagnosticCode.MissingFlowControlCondition,
+		]
+	}
+	
 	getCodeFixes(part: TemplatePart, piece: TemplatePartPiece, template: Template, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] | undefined {
 
 		// `<A`
 		if (part.type === TemplatePartType.Component) {
+			let actions: TS.CodeFixAction[] = []
+
 			if (errorCodes.includes(DiagnosticCode.MissingImportOrDeclaration)) {
-				return this.getCodeFixOfComponent(part, template)
+				actions.push(...this.getCodeFixOfComponent(part, template) ?? [])
+			}
+
+			if (errorCodes.includes(PluginDiagnosticCode.MissingRequiredProperty)) {
+				actions.push(...this.getCodeFixOfRequiredProperties(part, template))
 			}
+
+			return actions
 		}
 
-		// `<A`
+		// `:xxx`
 		else if (part.type === TemplatePartType.Binding) {
 			if (piece.type === TemplatePartPieceType.Name
 				&& errorCodes.includes(DiagnosticCode.MissingImportOrDeclaration)
 			) {
 				return this.getCodeFixOfBinding(part, template)
 			}
+
+			// `:slot="|name|"`
+			if (piece.type === TemplatePartPieceType.AttrValue
+				&& part.mainName === 'slot'
+				&& errorCodes.includes(PluginDiagnosticCode.UnknownSlotName)
+			) {
+				return this.getCodeFixOfSlotName(part, template)
+			}
+		}
+
+		// `.prop`
+		else if (part.type === TemplatePartType.Property) {
+			if (piece.type === TemplatePartPieceType.Name
+				&& errorCodes.includes(PluginDiagnosticCode.UnknownComponentProperty)
+			) {
+				return this.getCodeFixOfUnknownProperty(part, template)
+			}
+
+			// `<Icon .type="|name|"`
+			if (piece.type === TemplatePartPieceType.AttrValue
+				&& errorCodes.includes(PluginDiagnosticCode.UnknownIconName)
+			) {
+				let names = this.analyzer.getIconsForCompletion('').map(icon => icon.name)
+				return this.getCodeFixesOfValueSpelling(part, template, names)
+			}
+		}
+
+		// `<lu:if`
+		else if (part.type === TemplatePartType.FlowControl) {
+			if (piece.type === TemplatePartPieceType.TagName) {
+				return this.getCodeFixOfFlowControl(part, template, errorCodes)
+			}
+		}
+
+		// `@event`
+		else if (part.type === TemplatePartType.Event) {
+			if (piece.type === TemplatePartPieceType.Name
+				&& errorCodes.includes(PluginDiagnosticCode.UnknownComponentEvent)
+			) {
+				return this.getCodeFixOfUnknownEvent(part, template)
+			}
 		}
 
 		return undefined
@@ -88,6 +151,378 @@ export class LuposCodeFixes {
 		}]
 	}
 
+	/** Insert `.prop=${}` after tag name for each missing required property. */
+	private getCodeFixOfRequiredProperties(part: TemplatePart, template: Template): TS.CodeFixAction[] {
+		let component = this.analyzer.getComponentByTagName(part.node.tagName!, template)
+		let nameRange = template.getTagNameRanges(part.node)[0]
+
+		if (!component || !nameRange) {
+			return []
+		}
+
+		let providedNames = getPropertyNamesOfNode(part.node, template)
+		let missingNames = this.analyzer.getComponentRequiredProperties(component)
+			.map(property => property.name)
+			.filter(name => !providedNames.includes(name))
+
+		let insertStart = template.localOffsetToGlobal(nameRange.start + nameRange.length)
+
+		let makeAction = (names: string[], description: string): TS.CodeFixAction => {
+			return {
+				fixName: `Add required property`,
+				description,
+				changes: [{
+					fileName: template.fileName,
+					textChanges: [{
+						span: {
+							start: insertStart,
+							length: 0,
+						},
+						newText: names.map(name => ` .${name}=\${}`).join(''),
+					}],
+				}],
+			}
+		}
+
+		let actions = missingNames.map(name => makeAction([name], `Add property ".${name}"`))
+
+		if (missingNames.length > 1) {
+			actions.push(makeAction(missingNames, `Add all missing required properties`))
+		}
+
+		return actions
+	}
+
+	/** Fix spelling of `.prop`, or declare it in component class. */
+	private getCodeFixOfUnknownProperty(part: TemplatePart, template: Template): TS.CodeFixAction[] {
+		let mainName = part.mainName!
+		let component = this.analyzer.getComponentByTagName(part.node.tagName!, template)
+		if (!component) {
+			return []
+		}
+
+		let names = this.analyzer.getComponentPropertiesForCompletion(component, '', false).map(property => property.name)
+		let actions = this.getCodeFixesOfSpelling(part, template, names)
+		let declaration = component.declaration
+		let sourceFile = declaration.getSourceFile()
+
+		if (this.isFileEditable(sourceFile)) {
+			let members = declaration.members
+			let classIndent = getNodeIndent(declaration)
+			let newText = `\n${getMemberIndent(declaration)}${mainName}?: ${this.getPropertyTypeText(part, template)}`
+
+			if (members.length === 0) {
+				newText += '\n' + classIndent
+			}
+
+			actions.push({
+				fixName: `Declare property`,
+				description: `Declare property "${mainName}" in class "${component.name}"`,
+				changes: [{
+					fileName: sourceFile.fileName,
+					textChanges: [{
+						span: {
+							start: members.pos,
+							length: 0,
+						},
+						newText,
+					}],
+				}],
+			})
+		}
+
+		return actions
+	}
+
+	/** Fix spelling of `@event`, or declare it in the events interface of component. */
+	private getCodeFixOfUnknownEvent(part: TemplatePart, template: Template): TS.CodeFixAction[] {
+		let mainName = part.mainName!
+		let component = this.analyzer.getComponentByTagName(part.node.tagName!, template)
+		if (!component) {
+			return []
+		}
+
+		let events = this.analyzer.getComponentEventsForCompletion(component, '')
+		let actions = this.getCodeFixesOfSpelling(part, template, events.map(event => event.name))
+
+		// Interface or type literal which declares events, prefer the one in the file of component.
+		let eventMember = events
+			.sort((a, b) => Number(b.sourceFile === component.sourceFile) - Number(a.sourceFile === component.sourceFile))
+			.map(event => event.nameNode.parent)
+			.find(member => (ts.isInterfaceDeclaration(member.parent) || ts.isTypeLiteralNode(member.parent))
+				&& this.isFileEditable(member.getSourceFile())
+			)
+
+		if (eventMember) {
+			let container = eventMember.parent as TS.InterfaceDeclaration | TS.TypeLiteralNode
+			let lastMember = container.members[container.members.length - 1]
+
+			actions.push({
+				fixName: `Declare event`,
+				description: `Declare event "${mainName}" of component "${component.name}"`,
+				changes: [{
+					fileName: container.getSourceFile().fileName,
+					textChanges: [{
+						span: {
+							start: lastMember.end,
+							length: 0,
+						},
+						newText: `\n${getNodeIndent(lastMember)}${mainName}: ${this.getEventTypeText(part, template)}`,
+					}],
+				}],
+			})
+		}
+
+		return actions
+	}
+
+	/** Add missing condition like `${true}` as placeholder, or change orphan `<lu:elseif>` to `<lu:if>`. */
+	private getCodeFixOfFlowControl(part: TemplatePart, template: Template, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] {
+		let tagName = part.node.tagName!
+		let nameRanges = template.getTagNameRanges(part.node)
+		let actions: TS.CodeFixAction[] = []
+
+		if (nameRanges.length === 0) {
+			return actions
+		}
+
+		if (errorCodes.includes(PluginDiagnosticCode.MissingFlowControlCondition)) {
+			actions.push({
+				fixName: `Add condition`,
+				description: `Add condition to <${tagName}>`,
+				changes: [{
+					fileName: template.fileName,
+					textChanges: [{
+						span: {
+							start: template.localOffsetToGlobal(nameRanges[0].start + nameRanges[0].length),
+							length: 0,
+						},
+						newText: tagName === 'lu:for' ? ' ${[]}' : ' ${true}',
+					}],
+				}],
+			})
+		}
+
+		// Start and end tag names.
+		if (errorCodes.includes(PluginDiagnosticCode.MisplacedFlowControlTag) && tagName === 'lu:elseif') {
+			actions.push({
+				fixName: `Change to lu:if`,
+				description: `Change to <lu:if>`,
+				changes: [{
+					fileName: template.fileName,
+					textChanges: nameRanges.map(range => {
+						return {
+							span: {
+								start: template.localOffsetToGlobal(range.start),
+								length: range.length,
+							},
+							newText: 'lu:if',
+						}
+					}),
+				}],
+			})
+		}
+
+		return actions
+	}
+
+	/** Fix spelling of `:slot="name"`, or add it to slot elements of owner component. */
+	private getCodeFixOfSlotName(part: TemplatePart, template: Template): TS.CodeFixAction[] {
+		let attr = part.attr!
+		let slotName = attr.value!
+		let component = this.analyzer.getSlotOwnerComponent(part.node, template)
+		if (!component) {
+			return []
+		}
+
+		let names = this.analyzer.getSubPropertiesForCompletion(component, 'slotElements', '').map(property => property.name)
+		let actions = this.getCodeFixesOfValueSpelling(part, template, names)
+
+		let sourceFile = component.declaration.getSourceFile()
+		let textChange = this.isFileEditable(sourceFile) ? this.makeSlotElementTextChange(slotName, component.declaration) : undefined
+
+		if (textChange) {
+			actions.push({
+				fixName: `Add slot element`,
+				description: `Add "${slotName}" to slot elements of component "${component.name}"`,
+				changes: [{
+					fileName: sourceFile.fileName,
+					textChanges: [textChange],
+				}],
+			})
+		}
+
+		return actions
+	}
+
+	/** 
+	 * Add slot element to `slotElements!: {...}` or `slotElements = {...}`,
+	 * or declare `slotElements` if not declared by class.
+	 */
+	private makeSlotElementTextChange(slotName: string, declaration: TS.ClassDeclaration): TS.TextChange | undefined {
+		let slotElements = declaration.members.find(member => {
+			return ts.isPropertyDeclaration(member)
+				&& ts.isIdentifier(member.name)
+				&& member.name.text === 'slotElements'
+		}) as TS.PropertyDeclaration | undefined
+
+		// Declare a new one.
+		if (!slotElements) {
+			let classIndent = getNodeIndent(declaration)
+			let newText = `\n${getMemberIndent(declaration)}protected slotElements!: {${slotName}: HTMLElement | null}`
+
+			if (declaration.members.length === 0) {
+				newText += '\n' + classIndent
+			}
+
+			return {
+				span: {
+					start: declaration.members.pos,
+					length: 0,
+				},
+				newText,
+			}
+		}
+
+		// `slotElements!: {name: HTMLElement | null}`
+		if (slotElements.type && ts.isTypeLiteralNode(slotElements.type)) {
+			let members = slotElements.type.members
+			let valueText = members.find(ts.isPropertySignature)?.type?.getText() ?? 'HTMLElement | null'
+
+			return this.makeObjectLikeInsertion(slotElements.type, members, `${slotName}: ${valueText}`, ';')
+		}
+
+		// `slotElements = {name: null as HTMLElement | null}`
+		if (slotElements.initializer && ts.isObjectLiteralExpression(slotElements.initializer)) {
+			let properties = slotElements.initializer.properties
+			let valueText = properties.find(ts.isPropertyAssignment)?.initializer.getText() ?? 'null'
+
+			return this.makeObjectLikeInsertion(slotElements.initializer, properties, `${slotName}: ${valueText}`, ',')
+		}
+
+		return undefined
+	}
+
+	/** Insert an item after the last item of a type literal or object literal. */
+	private makeObjectLikeInsertion(
+		node: TS.TypeLiteralNode | TS.ObjectLiteralExpression,
+		items: TS.NodeArray<TS.Node>,
+		itemText: string,
+		separator: ';' | ','
+	): TS.TextChange {
+		let lastItem = items[items.length - 1]
+		let multipleLines = node.getText().includes('\n')
+
+		// `{}`
+		if (!lastItem) {
+			return {
+				span: {
+					start: items.pos,
+					length: 0,
+				},
+				newText: itemText,
+			}
+		}
+
+		// Separator of type members is included by member.
+		let separatorText = separator === ',' ? ',' : multipleLines ? '' : ';'
+
+		return {
+			span: {
+				start: lastItem.end,
+				length: 0,
+			},
+			newText: multipleLines
+				? `${separatorText}\n${getNodeIndent(lastItem)}${itemText}`
+				: `${separatorText} ${itemText}`,
+		}
+	}
+
+	/** Replace attribute value of part to each of closest names. */
+	private getCodeFixesOfValueSpelling(part: TemplatePart, template: Template, names: string[]): TS.CodeFixAction[] {
+		let attr = part.attr!
+		let value = attr.value!
+		let start = template.localOffsetToGlobal(attr.quoted ? attr.valueStart + 1 : attr.valueStart)
+
+		return getClosestNames(value, names).map(name => {
+			return {
+				fixName: `Fix spelling`,
+				description: `Change spelling to "${name}"`,
+				changes: [{
+					fileName: template.fileName,
+					textChanges: [{
+						span: {
+							start,
+							length: value.length,
+						},
+						newText: name,
+					}],
+				}],
+			}
+		})
+	}
+
+	/** Replace name of part to each of closest names. */
+	private getCodeFixesOfSpelling(part: TemplatePart, template: Template, names: string[]): TS.CodeFixAction[] {
+		let nameRange = template.getPartNameRange(part)
+		if (!nameRange) {
+			return []
+		}
+
+		let start = template.localOffsetToGlobal(nameRange.start)
+
+		return getClosestNames(part.mainName!, names).map(name => {
+			return {
+				fixName: `Fix spelling`,
+				description: `Change spelling to "${part.namePrefix}${name}"`,
+				changes: [{
+					fileName: template.fileName,
+					textChanges: [{
+						span: {
+							start,
+							length: nameRange.length,
+						},
+						newText: name,
+					}],
+				}],
+			}
+		})
+	}
+
+	/** Get type text of property by value of `.prop=${value}` or `.prop="value"`. */
+	private getPropertyTypeText(part: TemplatePart, template: Template): string {
+		let typeChecker = this.context.typeChecker
+		let attrValue = part.attr?.value
+		let slotIndex = attrValue?.match(/^\$LUPOS_SLOT_INDEX_(\d+)\$$/)?.[1]
+
+		if (slotIndex !== undefined) {
+			let valueType = typeChecker.getTypeAtLocation(template.valueNodes[Number(slotIndex)])
+			return typeChecker.typeToString(typeChecker.getBaseTypeOfLiteralType(valueType))
+		}
+
+		return attrValue === null || attrValue === undefined ? 'any' : 'string'
+	}
+
+	/** Get event type text by parameters of `@event=${handler}`. */
+	private getEventTypeText(part: TemplatePart, template: Template): string {
+		let typeChecker = this.context.typeChecker
+		let slotIndex = part.attr?.value?.match(/^\$LUPOS_SLOT_INDEX_(\d+)\$$/)?.[1]
+		let signature = slotIndex !== undefined
+			? typeChecker.getTypeAtLocation(template.valueNodes[Number(slotIndex)]).getCallSignatures()[0]
+			: undefined
+
+		let parameters = signature?.getParameters().map(parameter => {
+			return parameter.name + ': ' + typeChecker.typeToString(typeChecker.getTypeOfSymbol(parameter))
+		}) ?? []
+
+		return `(${parameters.join(', ')}) => void`
+	}
+
+	/** Declaration files and files in `node_modules` should not be edited. */
+	private isFileEditable(sourceFile: TS.SourceFile): boolean {
+		return !sourceFile.isDeclarationFile && !sourceFile.fileName.includes('/node_modules/')
+	}
+
 	// /** Can be a module name, or a relative path name. */
 	private getImportPath(decl: TS.ClassDeclaration, template: Template): string | undefined {
 		let targetSourceFile = decl.getSourceFile()
@@ -1,9 +1,10 @@
 import type * as TS from 'typescript'
 import {WorkSpaceAnalyzer, LuposItem} from './analyzer'
-import {getScriptElementKind} from './utils'
+import {LuposIcon} from './analyzer/icons'
+import {getScriptElementKind, pathJoin} from './utils'
 import {Template} from '../template-service'
 import {TemplatePart, TemplatePartPiece, TemplatePartPieceType, TemplatePartType} from '../lupos-ts-module'
-import {ProjectContext} from '../core'
+import {ProjectContext, ts} from '../core'
 
 
 /** Provide lupos definition service. */
@@ -39,6 +40,15 @@ export class LuposDefinition {
 
 				return this.makeDefinitionInfo(property, part, piece)
 			}
+
+			// `<Icon .type="|name|">`
+			else if (piece.type === TemplatePartPieceType.AttrValue
+				&& part.node.tagName!.includes('Icon')
+				&& part.mainName === 'type'
+			) {
+				let icon = this.analyzer.getIcon(part.attr!.value!)
+				return icon ? this.makeIconDefinitionInfo(icon, piece) : undefined
+			}
 		}
 
 		// @xxx
@@ -77,6 +87,45 @@ export class LuposDefinition {
 		return undefined
 	}
 
+	/** Go to the imported svg file if it exists, otherwise go to the import declaration. */
+	private makeIconDefinitionInfo(icon: LuposIcon, piece: TemplatePartPiece): TS.DefinitionInfoAndBoundSpan {
+		let moduleSpecifier = icon.declaration.moduleSpecifier as TS.StringLiteral
+		let importFileName = icon.declaration.getSourceFile().fileName
+		let svgFileName = moduleSpecifier.text.startsWith('.') ? pathJoin(importFileName, moduleSpecifier.text) : undefined
+
+		let info: TS.DefinitionInfo = svgFileName && this.context.project.fileExists(svgFileName)
+			? {
+				textSpan: {
+					start: 0,
+					length: 0,
+				},
+				fileName: svgFileName,
+				kind: ts.ScriptElementKind.externalModuleName,
+				name: icon.name,
+				containerName: svgFileName,
+				containerKind: ts.ScriptElementKind.scriptElement,
+			}
+			: {
+				textSpan: {
+					start: moduleSpecifier.getStart(),
+					length: moduleSpecifier.getWidth(),
+				},
+				fileName: importFileName,
+				kind: ts.ScriptElementKind.alias,
+				name: icon.name,
+				containerName: importFileName,
+				containerKind: ts.ScriptElementKind.scriptElement,
+			}
+
+		return {
+			definitions: [info],
+			textSpan: {
+				start: piece.start,
+				length: piece.end - piece.start,
+			},
+		}
+	}
+
 	private makeDefinitionInfo(item: LuposItem | undefined, part: TemplatePart, piece: TemplatePartPiece): TS.DefinitionInfoAndBoundSpan | undefined{
 		if (!item) {
 			return undefined
@@ -0,0 +1,569 @@
+import type * as TS from 'typescript'
+import {WorkSpaceAnalyzer} from './analyzer'
+import {LuposReferences} from './references'
+import {LuposFlowControlNarrowing} from './flow-control-narrowing'
+import {getClosestNames, getPreviousSiblingTag, getPropertyNamesOfNode} from './utils'
+import {Template} from '../template-service'
+import {DiagnosticModifier, findCompletionDataItem, HTMLNode, isSimulatedEventName, TemplatePart, TemplatePartType, TemplateSlotPlaceholder} from '../lupos-ts-module'
+import {DOMElementEvents} from '../complete-data'
+import {PluginConfig, PluginDiagnosticCode, ProjectContext, ts} from '../core'
+
+
+/** Flow control tags which must have a `${...}` as condition or value. */
+const FlowControlTagsRequireCondition = ['lu:if', 'lu:elseif', 'lu:switch', 'lu:case', 'lu:for', 'lu:await', 'lu:keyed']
+
+
+/**
+ * Provide lupos template diagnostics which are not covered by `TemplateDiagnostics`.
+ * Added diagnostics are located in global origin.
+ */
+export class LuposDiagnostics {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+	readonly references: LuposReferences
+	readonly flowControlNarrowing: LuposFlowControlNarrowing
+
+	constructor(analyzer: WorkSpaceAnalyzer, references: LuposReferences, flowControlNarrowing: LuposFlowControlNarrowing) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+		this.references = references
+		this.flowControlNarrowing = flowControlNarrowing
+	}
+
+	diagnose(template: Template, modifier: DiagnosticModifier) {
+		for (let part of template.parts) {
+
+			// `<A`
+			if (part.type === TemplatePartType.Component) {
+				this.diagnoseRequiredProperties(part, template, modifier)
+			}
+
+			// .xxx
+			else if (part.type === TemplatePartType.Property) {
+				this.diagnoseUnknownProperty(part, template, modifier)
+				this.diagnosePropertyType(part, template, modifier)
+				this.diagnoseIconName(part, template, modifier)
+			}
+
+			// @xxx
+			else if (part.type === TemplatePartType.Event) {
+				this.diagnoseUnknownEvent(part, template, modifier)
+				this.diagnoseEventHandler(part, template, modifier)
+			}
+
+			// :slot
+			else if (part.type === TemplatePartType.Binding && part.mainName === 'slot') {
+				this.diagnoseSlotName(part, template, modifier)
+			}
+
+			// `<lu:if`
+			else if (part.type === TemplatePartType.FlowControl) {
+				this.diagnoseFlowControl(part, template, modifier)
+			}
+		}
+	}
+
+	/** Diagnose declarations of a source file, not templates. */
+	diagnoseSourceFile(sourceFile: TS.SourceFile, modifier: DiagnosticModifier) {
+		if (sourceFile.isDeclarationFile) {
+			return
+		}
+
+		let components = this.analyzer.getComponentsBySourceFile(sourceFile)
+			.filter(component => Object.keys(component.slotElements).length > 0)
+
+		if (components.length === 0) {
+			return
+		}
+
+		// Walks all templates of workspace, only when have slot elements.
+		let filledNameNodes = this.references.getFilledSlotElementNameNodes()
+
+		for (let component of components) {
+			for (let property of Object.values(component.slotElements)) {
+				if (filledNameNodes.has(property.nameNode)) {
+					continue
+				}
+
+				this.addDiagnostic(
+					modifier,
+					sourceFile,
+					{start: property.nameNode.getStart(), length: property.nameNode.getWidth()},
+					PluginDiagnosticCode.UnusedSlotElement,
+					`Slot element "${property.name}" of component <${component.name}> is declared but never filled by ":slot".`,
+					ts.DiagnosticCategory.Warning
+				)
+			}
+		}
+	}
+
+	/** `<A>` must provide required `.prop=${...}`. */
+	private diagnoseRequiredProperties(part: TemplatePart, template: Template, modifier: DiagnosticModifier) {
+		let tagName = part.node.tagName!
+		let component = this.analyzer.getComponentByTagName(tagName, template)
+		if (!component) {
+			return
+		}
+
+		let nameRange = template.getTagNameRanges(part.node)[0]
+		if (!nameRange) {
+			return
+		}
+
+		let providedNames = getPropertyNamesOfNode(part.node, template)
+
+		for (let property of this.analyzer.getComponentRequiredProperties(component)) {
+			if (providedNames.includes(property.name)) {
+				continue
+			}
+
+			this.addDiagnostic(
+				modifier,
+				template.sourceFile,
+				this.localSpanToGlobal(nameRange, template),
+				PluginDiagnosticCode.MissingRequiredProperty,
+				`Property ".${property.name}" is required by component <${tagName}> but not provided.`
+			)
+		}
+	}
+
+	/** `<A .prop>`, `prop` must be declared by component or it's super classes. */
+	private diagnoseUnknownProperty(part: TemplatePart, template: Template, modifier: DiagnosticModifier) {
+		let mainName = part.mainName!
+		let tagName = part.node.tagName!
+		let component = TemplateSlotPlaceholder.isComponent(tagName) ? this.analyzer.getComponentByTagName(tagName, template) : null
+		let nameRange = template.getPartNameRange(part)
+
+		if (!component || !nameRange || !this.analyzer.isComponentShapeKnown(component)) {
+			return
+		}
+
+		if (this.analyzer.getComponentProperty(component, mainName)) {
+			return
+		}
+
+		let names = this.analyzer.getComponentPropertiesForCompletion(component, '', false).map(property => property.name)
+		let closestName = getClosestNames(mainName, names, 1)[0]
+		let message = `Property ".${mainName}" does not exist on component <${tagName}>.`
+
+		if (closestName) {
+			message += ` Did you mean ".${closestName}"?`
+		}
+
+		this.addDiagnostic(
+			modifier,
+			template.sourceFile,
+			this.localSpanToGlobal(nameRange, template),
+			PluginDiagnosticCode.UnknownComponentProperty,
+			message
+		)
+	}
+
+	/** 
+	 * `<A @event>`, `event` must be declared by component events,
+	 * or be a DOM event or simulated event if prefix is `@`.
+	 */
+	private diagnoseUnknownEvent(part: TemplatePart, template: Template, modifier: DiagnosticModifier) {
+		let mainName = part.mainName!
+		let tagName = part.node.tagName!
+		let component = TemplateSlotPlaceholder.isComponent(tagName) ? this.analyzer.getComponentByTagName(tagName, template) : null
+		let nameRange = template.getPartNameRange(part)
+
+		if (!component || !nameRange || !this.analyzer.isComponentShapeKnown(component)) {
+			return
+		}
+
+		if (this.analyzer.getComponentEvent(component, mainName)) {
+			return
+		}
+
+		// `@click`, `@tap`, can also bind to element of component.
+		if (part.namePrefix === '@'
+			&& (isSimulatedEventName(mainName)
+				|| findCompletionDataItem(DOMElementEvents, mainName)
+				|| this.analyzer.getDOMEventType(mainName, template.sourceFile))
+		) {
+			return
+		}
+
+		let names = this.analyzer.getComponentEventsForCompletion(component, '').map(event => event.name)
+		let closestName = getClosestNames(mainName, names, 1)[0]
+		let message = `Event "${part.namePrefix}${mainName}" does not exist on component <${tagName}>.`
+
+		if (closestName) {
+			message += ` Did you mean "${part.namePrefix}${closestName}"?`
+		}
+
+		this.addDiagnostic(
+			modifier,
+			template.sourceFile,
+			this.localSpanToGlobal(nameRange, template),
+			PluginDiagnosticCode.UnknownComponentEvent,
+			message
+		)
+	}
+
+	/** `:slot="name"`, `name` must be declared in slot elements of owner component. */
+	private diagnoseSlotName(part: TemplatePart, template: Template, modifier: DiagnosticModifier) {
+		let attr = part.attr
+		if (!attr || !attr.value || attr.value.includes('$LUPOS_SLOT_INDEX_')) {
+			return
+		}
+
+		let component = this.analyzer.getSlotOwnerComponent(part.node, template)
+		if (!component || !this.analyzer.isComponentShapeKnown(component)) {
+			return
+		}
+
+		if (this.analyzer.getComponentSubProperties(component, 'slotElements', attr.value)) {
+			return
+		}
+
+		let names = this.analyzer.getSubPropertiesForCompletion(component, 'slotElements', '').map(property => property.name)
+		let closestName = getClosestNames(attr.value, names, 1)[0]
+		let message = `Slot "${attr.value}" does not exist in slot elements of component <${component.name}>.`
+
+		if (closestName) {
+			message += ` Did you mean "${closestName}"?`
+		}
+
+		// `"|name|"`
+		let start = attr.quoted ? attr.valueStart + 1 : attr.valueStart
+		let end = attr.quoted ? attr.valueEnd - 1 : attr.valueEnd
+
+		this.addDiagnostic(
+			modifier,
+			template.sourceFile,
+			this.localSpanToGlobal({start, length: end - start}, template),
+			PluginDiagnosticCode.UnknownSlotName,
+			message
+		)
+	}
+
+	/** `<Icon .type="name">`, `name` must be an imported svg icon. */
+	private diagnoseIconName(part: TemplatePart, template: Template, modifier: DiagnosticModifier) {
+		let attr = part.attr
+		if (!part.node.tagName!.includes('Icon') || part.mainName !== 'type') {
+			return
+		}
+
+		if (!attr || !attr.value || attr.value.includes('$LUPOS_SLOT_INDEX_')) {
+			return
+		}
+
+		if (this.analyzer.getIcon(attr.value)) {
+			return
+		}
+
+		// Icons may be provided in other ways if no svg imported.
+		let names = this.analyzer.getIconsForCompletion('').map(icon => icon.name)
+		if (names.length === 0) {
+			return
+		}
+
+		let closestName = getClosestNames(attr.value, names, 1)[0]
+		let message = `Icon "${attr.value}" is not imported from any svg file.`
+
+		if (closestName) {
+			message += ` Did you mean "${closestName}"?`
+		}
+
+		// `"|name|"`
+		let start = attr.quoted ? attr.valueStart + 1 : attr.valueStart
+		let end = attr.quoted ? attr.valueEnd - 1 : attr.valueEnd
+
+		this.addDiagnostic(
+			modifier,
+			template.sourceFile,
+			this.localSpanToGlobal({start, length: end - start}, template),
+			PluginDiagnosticCode.UnknownIconName,
+			message
+		)
+	}
+
+	/** Validate position and condition of `<lu:if>`, `<lu:else>`, `<lu:case>`... */
+	private diagnoseFlowControl(part: TemplatePart, template: Template, modifier: DiagnosticModifier) {
+		let node = part.node
+		let tagName = node.tagName!
+		let nameRange = template.getTagNameRanges(node)[0]
+
+		if (!nameRange) {
+			return
+		}
+
+		let span = this.localSpanToGlobal(nameRange, template)
+
+		// `<lu:if>`
+		if (FlowControlTagsRequireCondition.includes(tagName) && !hasSlotAttribute(node)) {
+			this.addDiagnostic(
+				modifier,
+				template.sourceFile,
+				span,
+				PluginDiagnosticCode.MissingFlowControlCondition,
+				`<${tagName}> requires a condition like "<${tagName} \${...}>".`
+			)
+		}
+
+		// `<lu:elseif>`, `<lu:else>`
+		if (tagName === 'lu:elseif' || tagName === 'lu:else') {
+			let previousTagName = getPreviousSiblingTag(node)?.tagName
+
+			if (previousTagName === 'lu:else') {
+				this.addDiagnostic(
+					modifier,
+					template.sourceFile,
+					span,
+					PluginDiagnosticCode.DuplicateElseBranch,
+					tagName === 'lu:else'
+						? `Only one <lu:else> is allowed for each <lu:if>.`
+						: `<lu:elseif> must come before <lu:else>.`
+				)
+			}
+			else if (previousTagName !== 'lu:if' && previousTagName !== 'lu:elseif') {
+				this.addDiagnostic(
+					modifier,
+					template.sourceFile,
+					span,
+					PluginDiagnosticCode.MisplacedFlowControlTag,
+					`<${tagName}> must directly follow a <lu:if> or <lu:elseif>.`
+				)
+			}
+		}
+
+		// `<lu:case>`, `<lu:default>`
+		else if (tagName === 'lu:case' || tagName === 'lu:default') {
+			if (node.parent?.tagName !== 'lu:switch') {
+				this.addDiagnostic(
+					modifier,
+					template.sourceFile,
+					span,
+					PluginDiagnosticCode.MisplacedFlowControlTag,
+					`<${tagName}> must be a direct child of <lu:switch>.`
+				)
+			}
+		}
+	}
+
+	/** `.prop=${value}` or `.prop="value"` must match declared property type. */
+	private diagnosePropertyType(part: TemplatePart, template: Template, modifier: DiagnosticModifier) {
+		let tagName = part.node.tagName!
+		let component = this.analyzer.getComponentByTagName(tagName, template)
+		let property = component ? this.analyzer.getComponentProperty(component, part.mainName!) : undefined
+		let attr = part.attr
+
+		if (!property || !attr || attr.value === null) {
+			return
+		}
+
+		let typeChecker = this.context.typeChecker
+		let propertyType = property.type
+		let slotIndex = attr.value.match(/^\$LUPOS_SLOT_INDEX_(\d+)\$$/)?.[1]
+
+		// `.prop=${value}`
+		if (slotIndex !== undefined) {
+			let valueNode = template.valueNodes[Number(slotIndex)]
+			let valueType = this.flowControlNarrowing.getNarrowedValueType(template, Number(slotIndex))
+
+			if (typeChecker.isTypeAssignableTo(valueType, propertyType)) {
+				return
+			}
+
+			this.addDiagnostic(
+				modifier,
+				template.sourceFile,
+				{start: valueNode.getStart(), length: valueNode.getWidth()},
+				PluginDiagnosticCode.PropertyTypeNotAssignable,
+				this.makeNotAssignableMessage(
+					typeChecker.typeToString(valueType),
+					typeChecker.typeToString(propertyType),
+					`property ".${property.name}" of component <${tagName}>`,
+					PluginDiagnosticCode.PropertyTypeNotAssignable
+				)
+			)
+		}
+
+		// `.prop="a${b}"`, can only accept string.
+		else if (part.valueIndices?.length) {
+			let stringType = typeChecker.getStringType()
+
+			if (typeChecker.isTypeAssignableTo(stringType, propertyType)) {
+				return
+			}
+
+			this.addDiagnostic(
+				modifier,
+				template.sourceFile,
+				this.localSpanToGlobal({start: attr.valueStart, length: attr.valueEnd - attr.valueStart}, template),
+				PluginDiagnosticCode.PropertyTypeNotAssignable,
+				this.makeNotAssignableMessage(
+					'string',
+					typeChecker.typeToString(propertyType),
+					`property ".${property.name}" of component <${tagName}>`,
+					PluginDiagnosticCode.PropertyTypeNotAssignable
+				)
+			)
+		}
+
+		// `.prop="value"`, check with union literals.
+		else {
+			let literals = this.context.helper.types.splitUnionTypeToStringList(propertyType)
+			if (literals.length === 0 || literals.includes(attr.value)) {
+				return
+			}
+
+			if (typeChecker.isTypeAssignableTo(typeChecker.getStringLiteralType(attr.value), propertyType)) {
+				return
+			}
+
+			this.addDiagnostic(
+				modifier,
+				template.sourceFile,
+				this.localSpanToGlobal({start: attr.valueStart, length: attr.valueEnd - attr.valueStart}, template),
+				PluginDiagnosticCode.PropertyTypeNotAssignable,
+				this.makeNotAssignableMessage(
+					JSON.stringify(attr.value),
+					typeChecker.typeToString(propertyType),
+					`property ".${property.name}" of component <${tagName}>`,
+					PluginDiagnosticCode.PropertyTypeNotAssignable
+				)
+			)
+		}
+	}
+
+	/** `@event=${handler}`, handler must be callable and match event type. */
+	private diagnoseEventHandler(part: TemplatePart, template: Template, modifier: DiagnosticModifier) {
+		let mainName = part.mainName!
+		let tagName = part.node.tagName!
+		let slotIndex = part.attr?.value?.match(/^\$LUPOS_SLOT_INDEX_(\d+)\$$/)?.[1]
+
+		if (slotIndex === undefined || isSimulatedEventName(mainName)) {
+			return
+		}
+
+		let typeChecker = this.context.typeChecker
+		let valueNode = template.valueNodes[Number(slotIndex)]
+		let valueType = this.flowControlNarrowing.getNarrowedValueType(template, Number(slotIndex))
+		let span = {start: valueNode.getStart(), length: valueNode.getWidth()}
+
+		if (valueType.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+			return
+		}
+
+		let signatures = typeChecker.getNonNullableType(valueType).getCallSignatures()
+		if (signatures.length === 0) {
+			this.addDiagnostic(
+				modifier,
+				template.sourceFile,
+				span,
+				PluginDiagnosticCode.EventHandlerNotCallable,
+				`Type '${typeChecker.typeToString(valueType)}' is not callable, can't be used as handler of event "@${mainName}".`
+			)
+			return
+		}
+
+		// Event of component.
+		let component = TemplateSlotPlaceholder.isComponent(tagName) ? this.analyzer.getComponentByTagName(tagName, template) : null
+		let event = component ? this.analyzer.getComponentEvent(component, mainName) : undefined
+
+		if (event) {
+			if (typeChecker.isTypeAssignableTo(valueType, event.type)) {
+				return
+			}
+
+			this.addDiagnostic(
+				modifier,
+				template.sourceFile,
+				span,
+				PluginDiagnosticCode.EventHandlerNotAssignable,
+				this.makeNotAssignableMessage(
+					typeChecker.typeToString(valueType),
+					typeChecker.typeToString(event.type),
+					`event "@${mainName}" of component <${tagName}>`,
+					PluginDiagnosticCode.EventHandlerNotAssignable
+				)
+			)
+			return
+		}
+
+		// Event of element, or not declared event of component.
+		let eventType = this.analyzer.getDOMEventType(mainName, template.sourceFile)
+		if (!eventType) {
+			return
+		}
+
+		// Handler parameter must accept event object.
+		let assignable = signatures.some(signature => {
+			let parameter = signature.getParameters()[0]
+			return !parameter || typeChecker.isTypeAssignableTo(eventType, typeChecker.getTypeOfSymbol(parameter))
+		})
+
+		if (assignable) {
+			return
+		}
+
+		this.addDiagnostic(
+			modifier,
+			template.sourceFile,
+			span,
+			PluginDiagnosticCode.EventHandlerNotAssignable,
+			this.makeNotAssignableMessage(
+				typeChecker.typeToString(valueType),
+				`(e: ${typeChecker.typeToString(eventType)}) => void`,
+				`event "@${mainName}" of HTMLElementEventMap`,
+				PluginDiagnosticCode.EventHandlerNotAssignable
+			)
+		)
+	}
+
+	/** Make a message chain like typescript assignability errors. */
+	private makeNotAssignableMessage(valueTypeText: string, expectedTypeText: string, expectedFrom: string, code: PluginDiagnosticCode): TS.DiagnosticMessageChain {
+		return {
+			messageText: `Type '${valueTypeText}' is not assignable to type '${expectedTypeText}'.`,
+			category: ts.DiagnosticCategory.Error,
+			code,
+			next: [{
+				messageText: `The expected type comes from ${expectedFrom}.`,
+				category: ts.DiagnosticCategory.Message,
+				code,
+			}],
+		}
+	}
+
+	private localSpanToGlobal(span: TS.TextSpan, template: Template): TS.TextSpan {
+		let start = template.localOffsetToGlobal(span.start)
+		let end = template.localOffsetToGlobal(span.start + span.length)
+
+		return {
+			start,
+			length: end - start,
+		}
+	}
+
+	/** Add a diagnostic, `span` is in global origin. */
+	private addDiagnostic(
+		modifier: DiagnosticModifier,
+		sourceFile: TS.SourceFile,
+		span: TS.TextSpan,
+		code: PluginDiagnosticCode,
+		message: string | TS.DiagnosticMessageChain,
+		category: TS.DiagnosticCategory = ts.DiagnosticCategory.Error
+	) {
+		modifier.addDiagnostic({
+			code,
+			messageText: message,
+			category,
+			file: sourceFile,
+			start: span.start,
+			length: span.length,
+			source: PluginConfig.pluginName,
+		})
+	}
+}
+
+
+/** Whether node has an attribute like `${...}`. */
+function hasSlotAttribute(node: HTMLNode): boolean {
+	return node.attrs!.some(attr => attr.name.includes('$LUPOS_SLOT_INDEX_') || attr.value?.includes('$LUPOS_SLOT_INDEX_'))
+}
+
@@ -0,0 +1,397 @@
+import type * as TS from 'typescript'
+import {WorkSpaceAnalyzer} from './analyzer'
+import {getPreviousSiblingTag} from './utils'
+import {Template} from '../template-service'
+import {HTMLNode} from '../lupos-ts-module'
+import {ProjectContext, ts} from '../core'
+
+
+/** Which of `null` and `undefined` are excluded from a reference. */
+enum NonNullishFlags {
+	NonNull = 1,
+	NonUndefined = 2,
+	NonNullish = 3,
+}
+
+/** Narrowed references by a condition, reference text -> flags. */
+type Narrowings = Map<string, NonNullishFlags>
+
+/** A `<lu:if>`, `<lu:elseif>` or `<lu:else>` branch. */
+interface Branch {
+	node: HTMLNode
+	conditionIndex: number
+
+	/** Narrowings of content, by own condition and negated previous conditions. */
+	narrowings: Narrowings
+
+	/** Narrowings of own condition, by negated previous conditions. */
+	conditionNarrowings: Narrowings
+}
+
+
+/** Diagnostic codes of possibly `null` or `undefined` errors, and flags that can suppress them. */
+const NullishDiagnosticCodes: Map<number, NonNullishFlags> = new Map([
+
+	// `Object is possibly 'null'`.
+	[2531, NonNullishFlags.NonNull],
+
+	// `Object is possibly 'undefined'`.
+	[2532, NonNullishFlags.NonUndefined],
+
+	// `Object is possibly 'null' or 'undefined'`.
+	[2533, NonNullishFlags.NonNullish],
+
+	// `'x' is possibly 'null'`.
+	[18047, NonNullishFlags.NonNull],
+
+	// `'x' is possibly 'undefined'`.
+	[18048, NonNullishFlags.NonUndefined],
+
+	// `'x' is possibly 'null' or 'undefined'`.
+	[18049, NonNullishFlags.NonNullish],
+])
+
+
+/** Diagnostic codes of not assignable errors, which may be caused by `null` or `undefined`. */
+const NotAssignableDiagnosticCodes = [
+
+	// `Type 'X' is not assignable to type 'Y'`.
+	2322,
+
+	// `Argument of type 'X' is not assignable to parameter of type 'Y'`.
+	2345,
+]
+
+
+/**
+ * Typescript doesn't know content of `<lu:if ${cond}>...</lu:if>` renders only when `cond` is truthy.
+ * This class removes possibly `null` or `undefined` diagnostics of content slots,
+ * for references which are narrowed by conditions of `<lu:if>`, `<lu:elseif>` and `<lu:else>`,
+ * and provides narrowed types of slot values for lupos diagnostics.
+ */
+export class LuposFlowControlNarrowing {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+
+	constructor(analyzer: WorkSpaceAnalyzer) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+	}
+
+	/** Diagnostics are located in global origin. */
+	filterDiagnostics<D extends TS.Diagnostic>(template: Template, diagnostics: D[]): D[] {
+		if (!diagnostics.some(diag => NullishDiagnosticCodes.has(diag.code) || NotAssignableDiagnosticCodes.includes(diag.code))) {
+			return diagnostics
+		}
+
+		let branches = this.getBranches(template)
+		if (branches.length === 0) {
+			return diagnostics
+		}
+
+		return diagnostics.filter(diag => {
+			let flags = NullishDiagnosticCodes.get(diag.code)
+			let notAssignable = NotAssignableDiagnosticCodes.includes(diag.code)
+
+			if (!flags && !notAssignable || diag.start === undefined || diag.length === undefined) {
+				return true
+			}
+
+			let valueIndex = this.getValueIndexContains(template, diag.start, diag.start + diag.length)
+			if (valueIndex === -1) {
+				return true
+			}
+
+			// `@click=${() => this.user.name}`, called later and narrowing may not hold.
+			if (isInsideFunction(template.valueNodes[valueIndex], diag.start)) {
+				return true
+			}
+
+			let reference = template.sourceFile.text.slice(diag.start, diag.start + diag.length)
+			let narrowedFlags = this.getNarrowedFlags(branches, template, valueIndex, reference)
+
+			if (flags) {
+				return (narrowedFlags & flags) !== flags
+			}
+
+			return !this.isAssignableAfterNarrowing(template.sourceFile, diag.start, diag.length, narrowedFlags)
+		})
+	}
+
+	/** Get type of a slot value, and exclude `null` or `undefined` if it's narrowed. */
+	getNarrowedValueType(template: Template, valueIndex: number): TS.Type {
+		let valueNode = template.valueNodes[valueIndex]
+		let type = this.context.typeChecker.getTypeAtLocation(valueNode)
+		let branches = this.getBranches(template)
+
+		if (branches.length === 0) {
+			return type
+		}
+
+		let narrowedFlags = this.getNarrowedFlags(branches, template, valueIndex, valueNode.getText())
+		return this.narrowType(type, narrowedFlags)
+	}
+
+	/** Get narrowed flags of a reference inside a slot. */
+	private getNarrowedFlags(branches: Branch[], template: Template, valueIndex: number, referenceText: string): number {
+		let temOffset = template.getSlotPlaceholderOffset(valueIndex)
+		let reference = normalizeReferenceText(referenceText)
+		let narrowedFlags = 0
+
+		for (let branch of branches) {
+			if (temOffset < branch.node.start || temOffset >= branch.node.end) {
+				continue
+			}
+
+			let narrowings = branch.conditionIndex === valueIndex ? branch.conditionNarrowings : branch.narrowings
+			narrowedFlags |= narrowings.get(reference) ?? 0
+		}
+
+		return narrowedFlags
+	}
+
+	/** Exclude `null` and `undefined` from type if all of them are narrowed. */
+	private narrowType(type: TS.Type, narrowedFlags: number): TS.Type {
+		let types = type.isUnion() ? type.types : [type]
+		let nullishFlags = 0
+
+		for (let t of types) {
+			if (t.flags & ts.TypeFlags.Null) {
+				nullishFlags |= NonNullishFlags.NonNull
+			}
+			else if (t.flags & ts.TypeFlags.Undefined) {
+				nullishFlags |= NonNullishFlags.NonUndefined
+			}
+		}
+
+		if (nullishFlags === 0 || (narrowedFlags & nullishFlags) !== nullishFlags) {
+			return type
+		}
+
+		return this.context.typeChecker.getNonNullableType(type)
+	}
+
+	/** 
+	 * For not assignable diagnostic of expression like `fn(this.user)`,
+	 * whether it becomes assignable after excluding narrowed `null` or `undefined`.
+	 */
+	private isAssignableAfterNarrowing(sourceFile: TS.SourceFile, start: number, length: number, narrowedFlags: number): boolean {
+		if (narrowedFlags === 0) {
+			return false
+		}
+
+		let typeChecker = this.context.typeChecker
+		let node: TS.Node | undefined = this.context.helper.getNodeAtOffset(sourceFile, start)
+
+		// Find the expression which has the same range as diagnostic.
+		while (node && node.parent && node.parent.getStart() === start && node.parent.end <= start + length) {
+			node = node.parent
+		}
+
+		if (!node || node.getStart() !== start || node.end !== start + length || !ts.isExpression(node)) {
+			return false
+		}
+
+		let contextualType = typeChecker.getContextualType(node)
+		if (!contextualType) {
+			return false
+		}
+
+		let type = typeChecker.getTypeAtLocation(node)
+		let narrowedType = this.narrowType(type, narrowedFlags)
+
+		return narrowedType !== type && typeChecker.isTypeAssignableTo(narrowedType, contextualType)
+	}
+
+	/** Get index of value node which contains global range. */
+	private getValueIndexContains(template: Template, start: number, end: number): number {
+		return template.valueNodes.findIndex(node => node.getStart() <= start && node.end >= end)
+	}
+
+	/** Get all the `<lu:if>`, `<lu:elseif>`, `<lu:else>` branches and their narrowed references. */
+	private getBranches(template: Template): Branch[] {
+		let branches: Branch[] = []
+
+		template.root.visit(node => {
+			let tagName = node.tagName
+
+			if (tagName !== 'lu:if' && tagName !== 'lu:elseif' && tagName !== 'lu:else') {
+				return
+			}
+
+			let conditionNarrowings: Narrowings = new Map()
+			let conditionIndex = getConditionValueIndex(node)
+
+			// Negated conditions of previous branches.
+			let previous = tagName === 'lu:if' ? null : getPreviousSiblingTag(node)
+
+			while (previous && (previous.tagName === 'lu:if' || previous.tagName === 'lu:elseif')) {
+				let previousIndex = getConditionValueIndex(previous)
+				if (previousIndex !== -1) {
+					collectNarrowings(template.valueNodes[previousIndex], true, conditionNarrowings)
+				}
+
+				previous = previous.tagName === 'lu:if' ? null : getPreviousSiblingTag(previous)
+			}
+
+			let narrowings: Narrowings = new Map(conditionNarrowings)
+
+			// Own condition.
+			if (tagName !== 'lu:else' && conditionIndex !== -1) {
+				collectNarrowings(template.valueNodes[conditionIndex], false, narrowings)
+			}
+
+			if (narrowings.size > 0) {
+				branches.push({node, conditionIndex, narrowings, conditionNarrowings})
+			}
+		})
+
+		return branches
+	}
+}
+
+
+/** Whether global offset is inside a function expression of value node. */
+function isInsideFunction(valueNode: TS.Node, offset: number): boolean {
+	let node: TS.Node | undefined = valueNode
+
+	while (node) {
+		if (ts.isFunctionLike(node)) {
+			return true
+		}
+
+		node = ts.forEachChild(node, child => child.getStart() <= offset && child.end > offset ? child : undefined)
+	}
+
+	return false
+}
+
+
+/** Get index of value node of `<lu:if ${...}>`, returns `-1` if not found. */
+function getConditionValueIndex(node: HTMLNode): number {
+	for (let attr of node.attrs!) {
+		let match = (attr.name + (attr.value ?? '')).match(/\$LUPOS_SLOT_INDEX_(\d+)\$/)
+		if (match) {
+			return Number(match[1])
+		}
+	}
+
+	return -1
+}
+
+
+/**
+ * Collect references which are narrowed to be not `null` or `undefined`,
+ * when expression is truthy, or is falsy if `negated`.
+ */
+function collectNarrowings(exp: TS.Expression, negated: boolean, narrowings: Narrowings) {
+
+	// `(a)`
+	if (ts.isParenthesizedExpression(exp)) {
+		collectNarrowings(exp.expression, negated, narrowings)
+	}
+
+	// `!a`
+	else if (ts.isPrefixUnaryExpression(exp) && exp.operator === ts.SyntaxKind.ExclamationToken) {
+		collectNarrowings(exp.operand, !negated, narrowings)
+	}
+
+	else if (ts.isBinaryExpression(exp)) {
+		let operator = exp.operatorToken.kind
+
+		// `a && b`, or negated `a || b`.
+		if (operator === ts.SyntaxKind.AmpersandAmpersandToken && !negated
+			|| operator === ts.SyntaxKind.BarBarToken && negated
+		) {
+			collectNarrowings(exp.left, negated, narrowings)
+			collectNarrowings(exp.right, negated, narrowings)
+		}
+
+		// `a !== null`, `a != undefined`, or negated `a === null`.
+		else {
+			collectComparisonNarrowings(exp, negated, narrowings)
+		}
+	}
+
+	// `a`, `this.a.b`
+	else if (!negated && isReferenceExpression(exp)) {
+		addReferenceNarrowing(exp, NonNullishFlags.NonNullish, narrowings)
+	}
+}
+
+
+/** Collect narrowings of `a !== null`, `a != undefined`, `null !== a`. */
+function collectComparisonNarrowings(exp: TS.BinaryExpression, negated: boolean, narrowings: Narrowings) {
+	let operator = exp.operatorToken.kind
+	let strict = operator === ts.SyntaxKind.ExclamationEqualsEqualsToken || operator === ts.SyntaxKind.EqualsEqualsEqualsToken
+	let notEqual = operator === ts.SyntaxKind.ExclamationEqualsEqualsToken || operator === ts.SyntaxKind.ExclamationEqualsToken
+	let equal = operator === ts.SyntaxKind.EqualsEqualsEqualsToken || operator === ts.SyntaxKind.EqualsEqualsToken
+
+	// `a !== null` is truthy, or `a === null` is falsy.
+	if (!(notEqual && !negated || equal && negated)) {
+		return
+	}
+
+	let [reference, nullish] = isNullishExpression(exp.right) ? [exp.left, exp.right] : [exp.right, exp.left]
+	if (!isNullishExpression(nullish) || !isReferenceExpression(reference)) {
+		return
+	}
+
+	let flags = !strict ? NonNullishFlags.NonNullish
+		: nullish.kind === ts.SyntaxKind.NullKeyword ? NonNullishFlags.NonNull
+		: NonNullishFlags.NonUndefined
+
+	addReferenceNarrowing(reference, flags, narrowings)
+}
+
+
+/** `null` or `undefined`. */
+function isNullishExpression(exp: TS.Expression): boolean {
+	return exp.kind === ts.SyntaxKind.NullKeyword
+		|| ts.isIdentifier(exp) && exp.text === 'undefined'
+}
+
+
+/** Like `a`, `this.a`, `a?.b`, `a[0]`, `a!.b`. */
+function isReferenceExpression(exp: TS.Expression): boolean {
+	if (ts.isIdentifier(exp) || exp.kind === ts.SyntaxKind.ThisKeyword) {
+		return true
+	}
+	else if (ts.isPropertyAccessExpression(exp) || ts.isNonNullExpression(exp) || ts.isParenthesizedExpression(exp)) {
+		return isReferenceExpression(exp.expression)
+	}
+	else if (ts.isElementAccessExpression(exp)) {
+		return ts.isLiteralExpression(exp.argumentExpression) && isReferenceExpression(exp.expression)
+	}
+
+	return false
+}
+
+
+/** 
+ * If `a.b` is not undefined, `a` is also not nullish.
+ * Note `a?.b !== null` can't narrow `a`.
+ */
+function addReferenceNarrowing(exp: TS.Expression, flags: NonNullishFlags, narrowings: Narrowings) {
+	let text = normalizeReferenceText(exp.getText())
+	narrowings.set(text, (narrowings.get(text) ?? 0) | flags)
+
+	if ((flags & NonNullishFlags.NonUndefined) === 0) {
+		return
+	}
+
+	while (ts.isPropertyAccessExpression(exp) || ts.isElementAccessExpression(exp) || ts.isNonNullExpression(exp) || ts.isParenthesizedExpression(exp)) {
+		exp = exp.expression
+
+		if (exp.kind !== ts.SyntaxKind.ThisKeyword && !ts.isNonNullExpression(exp) && !ts.isParenthesizedExpression(exp)) {
+			narrowings.set(normalizeReferenceText(exp.getText()), NonNullishFlags.NonNullish)
+		}
+	}
+}
+
+
+/** `this.a?.b!` -> `this.a.b`. */
+function normalizeReferenceText(text: string): string {
+	return text.replace(/\s+/g, '').replace(/\?\./g, '.').replace(/!(?!=)/g, '').replace(/^\((.+)\)$/, '$1')
+}
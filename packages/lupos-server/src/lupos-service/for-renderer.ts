@@ -0,0 +1,339 @@
+import type * as TS from 'typescript'
+import {WorkSpaceAnalyzer} from './analyzer'
+import {Template} from '../template-service'
+import {DiagnosticModifier, HTMLNode, HTMLNodeType} from '../lupos-ts-module'
+import {PluginConfig, PluginDiagnosticCode, ProjectContext, ts} from '../core'
+
+
+/** Data and renderer of `<lu:for ${data}>${renderer}</lu:for>`. */
+interface ForLoop {
+	dataNode: TS.Expression
+	rendererNode: TS.Expression
+	rendererIndex: number
+
+	/** Item type of data, `undefined` if can't infer. */
+	itemType: TS.Type | undefined
+}
+
+
+/** `Parameter 'x' implicitly has an 'any' type.`, and for binding element. */
+const ImplicitAnyParameterCodes = [7006, 7031]
+
+
+/**
+ * Typescript doesn't know the relation between `data` and `renderer` of `<lu:for ${data}>${renderer}</lu:for>`.
+ * This class checks renderer parameters `(item, index)` with the item type of data,
+ * and helps to annotate not annotated parameters with item type.
+ */
+export class LuposForRenderer {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+
+	constructor(analyzer: WorkSpaceAnalyzer) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+	}
+
+	/** Walk all the for loops of a template. */
+	private *walkForLoops(template: Template): Iterable<ForLoop> {
+		let nodes: HTMLNode[] = []
+
+		template.root.visit(node => {
+			if (node.tagName === 'lu:for') {
+				nodes.push(node)
+			}
+		})
+
+		for (let node of nodes) {
+			let forLoop = this.getForLoop(node, template)
+			if (forLoop) {
+				yield forLoop
+			}
+		}
+	}
+
+	/** Get data and renderer of a `<lu:for>` node. */
+	private getForLoop(node: HTMLNode, template: Template): ForLoop | null {
+		let dataIndex = node.attrs!
+			.map(attr => attr.name.match(/^\$LUPOS_SLOT_INDEX_(\d+)\$$/)?.[1])
+			.find(index => index !== undefined)
+
+		// Renderer must be the only content.
+		let contents = node.children.filter(child => child.type !== HTMLNodeType.Text || child.text!.trim())
+		let rendererIndex = contents.length === 1 && contents[0].type === HTMLNodeType.Text
+			? contents[0].text!.match(/^\s*\$LUPOS_SLOT_INDEX_(\d+)\$\s*$/)?.[1]
+			: undefined
+
+		if (dataIndex === undefined || rendererIndex === undefined) {
+			return null
+		}
+
+		let dataNode = template.valueNodes[Number(dataIndex)]
+		let dataType = this.context.typeChecker.getTypeAtLocation(dataNode)
+
+		return {
+			dataNode,
+			rendererNode: template.valueNodes[Number(rendererIndex)],
+			rendererIndex: Number(rendererIndex),
+			itemType: dataType.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)
+				? undefined
+				: this.analyzer.getIterableItemType(dataType),
+		}
+	}
+
+	/** Get the renderer function literal which declares parameter. */
+	private getForLoopByParameter(template: Template, parameter: TS.ParameterDeclaration): ForLoop | null {
+		for (let forLoop of this.walkForLoops(template)) {
+			if (forLoop.rendererNode === parameter.parent) {
+				return forLoop
+			}
+		}
+
+		return null
+	}
+
+	/** Check renderer parameters with item type and `number` index. */
+	diagnose(template: Template, modifier: DiagnosticModifier) {
+		let typeChecker = this.context.typeChecker
+
+		for (let forLoop of this.walkForLoops(template)) {
+			if (!forLoop.itemType) {
+				continue
+			}
+
+			let rendererNode = forLoop.rendererNode
+			let expectedTypes = [forLoop.itemType, typeChecker.getNumberType()]
+
+			// `(item: T, index: number) => ...`, check annotated types.
+			if (ts.isArrowFunction(rendererNode) || ts.isFunctionExpression(rendererNode)) {
+				for (let i = 0; i < Math.min(rendererNode.parameters.length, 2); i++) {
+					let parameter = rendererNode.parameters[i]
+					let typeNode = parameter.type
+
+					// Typescript reports implicit any only when `noImplicitAny` is on.
+					if (!typeNode) {
+						if (!this.isImplicitAnyReported()) {
+							this.addNotAnnotatedDiagnostic(modifier, template, parameter, expectedTypes[i])
+						}
+						continue
+					}
+
+					let parameterType = typeChecker.getTypeFromTypeNode(typeNode)
+					if (!typeChecker.isTypeAssignableTo(expectedTypes[i], parameterType)) {
+						this.addNotAssignableDiagnostic(modifier, template, typeNode, expectedTypes[i], parameterType, i, forLoop)
+					}
+				}
+			}
+
+			// `this.renderItem`, check signature.
+			else {
+				let signature = typeChecker.getTypeAtLocation(rendererNode).getCallSignatures()[0]
+				let parameters = signature?.getParameters() ?? []
+
+				for (let i = 0; i < Math.min(parameters.length, 2); i++) {
+					let parameterType = typeChecker.getTypeOfSymbol(parameters[i])
+					if (!typeChecker.isTypeAssignableTo(expectedTypes[i], parameterType)) {
+						this.addNotAssignableDiagnostic(modifier, template, rendererNode, expectedTypes[i], parameterType, i, forLoop)
+						break
+					}
+				}
+			}
+		}
+	}
+
+	/** Whether typescript reports implicit any errors of parameters. */
+	private isImplicitAnyReported(): boolean {
+		let options = this.context.program.getCompilerOptions()
+		return options.noImplicitAny ?? !!options.strict
+	}
+
+	private addNotAnnotatedDiagnostic(
+		modifier: DiagnosticModifier,
+		template: Template,
+		parameter: TS.ParameterDeclaration,
+		expectedType: TS.Type
+	) {
+		let typeText = this.context.typeChecker.typeToString(expectedType)
+
+		modifier.addDiagnostic({
+			code: PluginDiagnosticCode.UnannotatedForRendererParameter,
+			messageText: `Renderer parameter "${parameter.name.getText()}" has an 'any' type and is not checked, should annotate it as '${typeText}'.`,
+			category: ts.DiagnosticCategory.Error,
+			file: template.sourceFile,
+			start: parameter.getStart(),
+			length: parameter.getWidth(),
+			source: PluginConfig.pluginName,
+		})
+	}
+
+	private addNotAssignableDiagnostic(
+		modifier: DiagnosticModifier,
+		template: Template,
+		node: TS.Node,
+		expectedType: TS.Type,
+		parameterType: TS.Type,
+		parameterIndex: number,
+		forLoop: ForLoop
+	) {
+		let typeChecker = this.context.typeChecker
+		let code = PluginDiagnosticCode.ForRendererParameterNotAssignable
+
+		let expectedFrom = parameterIndex === 0
+			? `items of <lu:for \${${forLoop.dataNode.getText()}}>`
+			: `index of <lu:for>`
+
+		modifier.addDiagnostic({
+			code,
+			messageText: {
+				messageText: `Type '${typeChecker.typeToString(expectedType)}' is not assignable to type '${typeChecker.typeToString(parameterType)}'.`,
+				category: ts.DiagnosticCategory.Error,
+				code,
+				next: [{
+					messageText: `The renderer parameter type should accept ${expectedFrom}.`,
+					category: ts.DiagnosticCategory.Message,
+					code,
+				}],
+			},
+			category: ts.DiagnosticCategory.Error,
+			file: template.sourceFile,
+			start: node.getStart(),
+			length: node.getWidth(),
+			source: PluginConfig.pluginName,
+		})
+	}
+
+	/** Get all diagnostic codes which can be fixed, except typescript ones. */
+	getSupportedCodes(): number[] {
+		return [
+			PluginDiagnosticCode.UnannotatedForRendererParameter,
+		]
+	}
+
+	/**
+	 * Get code fixes of implicit any diagnostics of not annotated renderer parameters,
+	 * annotate them with item type of data and `number`.
+	 * `start` and `end` are in global origin.
+	 */
+	getCodeFixes(template: Template, start: number, end: number, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] {
+		if (!errorCodes.some(code => ImplicitAnyParameterCodes.includes(code) || code === PluginDiagnosticCode.UnannotatedForRendererParameter)) {
+			return []
+		}
+
+		let typeChecker = this.context.typeChecker
+
+		for (let forLoop of this.walkForLoops(template)) {
+			let rendererNode = forLoop.rendererNode
+
+			if (!forLoop.itemType || !(ts.isArrowFunction(rendererNode) || ts.isFunctionExpression(rendererNode))) {
+				continue
+			}
+
+			let parameters = rendererNode.parameters.slice(0, 2)
+			if (!parameters.some(parameter => !parameter.type && parameter.getStart() <= start && parameter.end >= end)) {
+				continue
+			}
+
+			let typeTexts = [
+				typeChecker.typeToString(forLoop.itemType, rendererNode, ts.TypeFormatFlags.NoTruncation),
+				'number',
+			]
+
+			let textChanges: TS.TextChange[] = []
+
+			for (let i = 0; i < parameters.length; i++) {
+				let parameter = parameters[i]
+				if (parameter.type) {
+					continue
+				}
+
+				textChanges.push({
+					span: {
+						start: (parameter.questionToken ?? parameter.name).end,
+						length: 0,
+					},
+					newText: `: ${typeTexts[i]}`,
+				})
+			}
+
+			// `item => ...` -> `(item: T) => ...`.
+			if (!rendererNode.getChildren().some(child => child.kind === ts.SyntaxKind.OpenParenToken)) {
+				textChanges.unshift({
+					span: {
+						start: parameters[0].getStart(),
+						length: 0,
+					},
+					newText: '(',
+				})
+
+				textChanges.push({
+					span: {
+						start: parameters[0].end,
+						length: 0,
+					},
+					newText: ')',
+				})
+			}
+
+			return [{
+				fixName: `Annotate renderer parameters`,
+				description: `Annotate renderer parameters with item type "${typeTexts[0]}"`,
+				changes: [{
+					fileName: template.fileName,
+					textChanges,
+				}],
+			}]
+		}
+
+		return []
+	}
+
+	/**
+	 * Get quick info of a not annotated renderer parameter `item` or `index`,
+	 * which tells it's `any` and the type it should be annotated as.
+	 * `textSpan` is in global origin.
+	 */
+	getParameterQuickInfo(template: Template, parameter: TS.ParameterDeclaration, textSpan: TS.TextSpan): TS.QuickInfo | undefined {
+		let forLoop = this.getForLoopByParameter(template, parameter)
+		let rendererNode = forLoop?.rendererNode
+
+		if (!forLoop || !forLoop.itemType || parameter.type || !ts.isIdentifier(parameter.name)) {
+			return undefined
+		}
+
+		if (!rendererNode || !(ts.isArrowFunction(rendererNode) || ts.isFunctionExpression(rendererNode))) {
+			return undefined
+		}
+
+		let parameterIndex = rendererNode.parameters.indexOf(parameter)
+		if (parameterIndex > 1) {
+			return undefined
+		}
+
+		let typeChecker = this.context.typeChecker
+		let expectedType = parameterIndex === 0 ? forLoop.itemType : typeChecker.getNumberType()
+		let expectedTypeText = typeChecker.typeToString(expectedType)
+
+		return {
+			kind: ts.ScriptElementKind.parameterElement,
+			kindModifiers: '',
+			textSpan,
+			displayParts: [
+				{kind: 'punctuation', text: '('},
+				{kind: 'text', text: 'parameter'},
+				{kind: 'punctuation', text: ')'},
+				{kind: 'space', text: ' '},
+				{kind: 'parameterName', text: parameter.name.text},
+				{kind: 'punctuation', text: ':'},
+				{kind: 'space', text: ' '},
+				{kind: 'text', text: typeChecker.typeToString(typeChecker.getTypeAtLocation(parameter))},
+			],
+			documentation: [{
+				kind: 'text',
+				text: parameterIndex === 0
+					? `Not annotated so not checked, items of <lu:for \${${forLoop.dataNode.getText()}}> are '${expectedTypeText}'.`
+					: `Not annotated so not checked, index of item in <lu:for> is '${expectedTypeText}'.`,
+			}],
+		}
+	}
+}
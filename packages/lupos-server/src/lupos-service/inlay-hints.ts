@@ -0,0 +1,157 @@
+import type * as TS from 'typescript'
+import {WorkSpaceAnalyzer} from './analyzer'
+import {Template} from '../template-service'
+import {isSimulatedEventName, TemplatePart, TemplatePartType, TemplateSlotPlaceholder} from '../lupos-ts-module'
+import {ProjectContext, ts} from '../core'
+
+
+/**
+ * Provide lupos inlay hints service,
+ * show types and units of slot values, and parameter names of binding values.
+ */
+export class LuposInlayHints {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+
+	constructor(analyzer: WorkSpaceAnalyzer) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+	}
+
+	/** Returned hints are located in global origin. */
+	getInlayHints(template: Template): TS.InlayHint[] {
+		let hints: TS.InlayHint[] = []
+
+		for (let part of template.parts) {
+			hints.push(...this.getPartInlayHints(part, template))
+		}
+
+		return hints
+	}
+
+	private getPartInlayHints(part: TemplatePart, template: Template): TS.InlayHint[] {
+
+		// Only for `xxx=${...}`.
+		let valueIndex = part.valueIndices?.[part.valueIndices.length - 1]
+		if (!valueIndex) {
+			return []
+		}
+
+		// After `${...}`.
+		let position = template.localOffsetToGlobal(valueIndex.end)
+
+		// .xxx=${...}
+		if (part.type === TemplatePartType.Property) {
+			let type = this.getPropertyType(part, template)
+			return type ? [this.makeTypeHint(': ' + this.context.typeChecker.typeToString(type), position)] : []
+		}
+
+		// @xxx=${...}
+		else if (part.type === TemplatePartType.Event) {
+			let text = this.getEventHandlerTypeText(part, template)
+			return text ? [this.makeTypeHint(': ' + text, position)] : []
+		}
+
+		// :style.width.px=${...}
+		else if (part.type === TemplatePartType.Binding && part.mainName === 'style') {
+			let unit = part.modifiers?.[1]
+			return unit ? [this.makeTypeHint(unit, position)] : []
+		}
+
+		// :xxx=${[a, b]}
+		else if (part.type === TemplatePartType.Binding && part.valueIndices!.length === 1) {
+			return this.getBindingParameterHints(part, template, template.valueNodes[valueIndex.index])
+		}
+
+		return []
+	}
+
+	/** Get declared type of component property. */
+	private getPropertyType(part: TemplatePart, template: Template): TS.Type | undefined {
+		let tagName = part.node.tagName!
+		if (!TemplateSlotPlaceholder.isComponent(tagName)) {
+			return undefined
+		}
+
+		let component = this.analyzer.getComponentByTagName(tagName, template)
+		let property = component ? this.analyzer.getComponentProperty(component, part.mainName!) : undefined
+
+		return property?.type
+	}
+
+	/** Get handler type of component event, or of DOM event. */
+	private getEventHandlerTypeText(part: TemplatePart, template: Template): string | undefined {
+		let mainName = part.mainName!
+		let tagName = part.node.tagName!
+		let typeChecker = this.context.typeChecker
+
+		if (TemplateSlotPlaceholder.isComponent(tagName) && !isSimulatedEventName(mainName)) {
+			let component = this.analyzer.getComponentByTagName(tagName, template)
+			let event = component ? this.analyzer.getComponentEvent(component, mainName) : undefined
+
+			if (event) {
+				return typeChecker.typeToString(event.type)
+			}
+		}
+
+		let eventType = this.analyzer.getDOMEventType(mainName, template.sourceFile)
+		if (!eventType) {
+			return undefined
+		}
+
+		return `(e: ${typeChecker.typeToString(eventType)}) => void`
+	}
+
+	/** Get parameter name hints of binding class `update()` method for each tuple item. */
+	private getBindingParameterHints(part: TemplatePart, template: Template, valueNode: TS.Expression): TS.InlayHint[] {
+		if (!ts.isArrayLiteralExpression(valueNode)) {
+			return []
+		}
+
+		let binding = this.analyzer.getBindingByName(part.mainName!, template)
+		if (!binding) {
+			return []
+		}
+
+		let typeChecker = this.context.typeChecker
+		let updateSymbol = typeChecker.getTypeAtLocation(binding.declaration).getProperty('update')
+		let signature = updateSymbol ? typeChecker.getTypeOfSymbol(updateSymbol).getCallSignatures()[0] : undefined
+		if (!signature) {
+			return []
+		}
+
+		let parameters = signature.getParameters()
+
+		// `update(value)` accepts whole tuple.
+		if (parameters.length < 2) {
+			return []
+		}
+
+		let hints: TS.InlayHint[] = []
+
+		valueNode.elements.forEach((element, index) => {
+			let parameter = parameters[index]
+			if (!parameter || ts.isSpreadElement(element) || ts.isOmittedExpression(element)) {
+				return
+			}
+
+			hints.push({
+				text: parameter.name + ':',
+				position: element.getStart(),
+				kind: ts.InlayHintKind.Parameter,
+				whitespaceAfter: true,
+			})
+		})
+
+		return hints
+	}
+
+	private makeTypeHint(text: string, position: number): TS.InlayHint {
+		return {
+			text,
+			position,
+			kind: ts.InlayHintKind.Type,
+		}
+	}
+}
@@ -0,0 +1,116 @@
+import type * as TS from 'typescript'
+import {WorkSpaceAnalyzer} from './analyzer'
+import {ProjectContext, ts} from '../core'
+
+
+/** A named lupos item which can be navigated to. */
+interface NavigateToTarget {
+	name: string
+	kind: TS.ScriptElementKind
+	node: TS.Node
+}
+
+
+/**
+ * Provide lupos workspace symbol service,
+ * can search components by `<Name`, bindings by `:name` and icons by name.
+ */
+export class LuposNavigateTo {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+
+	constructor(analyzer: WorkSpaceAnalyzer) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+	}
+
+	/** Returned items are located in global origin. */
+	getNavigateToItems(searchValue: string): TS.NavigateToItem[] {
+		let items: TS.NavigateToItem[] = []
+
+		for (let target of this.walkTargets(searchValue)) {
+			let matchKind = this.getMatchKind(target.name, searchValue)
+			if (matchKind) {
+				items.push(this.makeNavigateToItem(target, matchKind))
+			}
+		}
+
+		return items
+	}
+
+	/** Walk targets, `<` limits to components, and `:` limits to bindings. */
+	private *walkTargets(searchValue: string): Iterable<NavigateToTarget> {
+		let searchComponents = !searchValue.startsWith(':')
+		let searchBindings = !searchValue.startsWith('<')
+		let searchIcons = searchComponents && searchBindings
+
+		if (searchComponents) {
+			for (let component of this.analyzer.getComponentsForCompletion('')) {
+				yield {
+					name: '<' + component.name + '>',
+					kind: ts.ScriptElementKind.classElement,
+					node: component.nameNode,
+				}
+			}
+		}
+
+		if (searchBindings) {
+			for (let binding of this.analyzer.getBindingsForCompletion('')) {
+				yield {
+					name: ':' + binding.name,
+					kind: ts.ScriptElementKind.classElement,
+					node: binding.nameNode,
+				}
+			}
+		}
+
+		if (searchIcons) {
+			for (let icon of this.analyzer.getIconsForCompletion('')) {
+				yield {
+					name: icon.name,
+					kind: ts.ScriptElementKind.alias,
+					node: icon.declaration.moduleSpecifier,
+				}
+			}
+		}
+	}
+
+	/** Match case insensitively, search value can be a substring of name. */
+	private getMatchKind(name: string, searchValue: string): TS.NavigateToItem['matchKind'] | null {
+		let lowerName = name.toLowerCase()
+		let lowerSearchValue = searchValue.toLowerCase()
+
+		// `<Com` matches `<Com>`.
+		if (lowerName === lowerSearchValue || lowerName === lowerSearchValue + '>') {
+			return 'exact'
+		}
+		else if (lowerName.startsWith(lowerSearchValue)) {
+			return 'prefix'
+		}
+		else if (lowerName.includes(lowerSearchValue)) {
+			return 'substring'
+		}
+
+		return null
+	}
+
+	private makeNavigateToItem(target: NavigateToTarget, matchKind: TS.NavigateToItem['matchKind']): TS.NavigateToItem {
+		let sourceFile = target.node.getSourceFile()
+
+		return {
+			name: target.name,
+			kind: target.kind,
+			kindModifiers: '',
+			matchKind,
+			isCaseSensitive: false,
+			fileName: sourceFile.fileName,
+			textSpan: {
+				start: target.node.getStart(),
+				length: target.node.getWidth(),
+			},
+			containerName: sourceFile.fileName.replace(/^.*\//, ''),
+			containerKind: ts.ScriptElementKind.moduleElement,
+		}
+	}
+}
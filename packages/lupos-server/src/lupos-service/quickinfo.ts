@@ -1,10 +1,11 @@
 import type * as TS from 'typescript'
 import {WorkSpaceAnalyzer} from './analyzer'
+import {LuposIcon} from './analyzer/icons'
 import {getScriptElementKind, getSymbolDisplayPartKind} from './utils'
 import {DOMBooleanAttributes, DOMElementEvents, DOMStyleProperties, CompletionItem} from '../complete-data'
 import {TemplatePart, TemplatePartPiece, TemplatePartPieceType, isSimulatedEventName, TemplatePartType, TemplateSlotPlaceholder, LuposBindingModifiers, LuposComponentAttributes, LuposDOMEventModifiers, LuposDOMEventCategories, LuposSimulatedEvents,} from '../lupos-ts-module'
 import {Template} from '../template-service'
-import {ProjectContext} from '../core'
+import {ProjectContext, ts} from '../core'
 
 
 interface QuickInfoItem extends CompletionItem {
@@ -45,6 +46,15 @@ export class LuposQuickInfo {
 
 				return this.makeQuickInfo(property, part, piece)
 			}
+
+			// `<Icon .type="|name|">`
+			else if (piece.type === TemplatePartPieceType.AttrValue
+				&& part.node.tagName!.includes('Icon')
+				&& part.mainName === 'type'
+			) {
+				let icon = this.analyzer.getIcon(part.attr!.value!)
+				return icon ? this.makeIconQuickInfo(icon, piece) : undefined
+			}
 		}
 
 		// ?xxx
@@ -177,6 +187,32 @@ export class LuposQuickInfo {
 		return undefined
 	}
 
+	/** Show icon name and where it get imported from. */
+	private makeIconQuickInfo(icon: LuposIcon, piece: TemplatePartPiece): TS.QuickInfo {
+		let documentation: TS.SymbolDisplayPart[] = []
+
+		if (icon.description) {
+			documentation.push({
+				kind: 'text',
+				text: icon.description,
+			})
+		}
+
+		return {
+			kind: ts.ScriptElementKind.alias,
+			kindModifiers: '',
+			textSpan: {
+				start: piece.start,
+				length: piece.end - piece.start,
+			},
+			displayParts: [{
+				kind: ts.SymbolDisplayPartKind[ts.SymbolDisplayPartKind.aliasName],
+				text: `(icon) ${icon.name} from ${icon.declaration.moduleSpecifier.getText()}`,
+			}],
+			documentation,
+		}
+	}
+
 	private makeQuickInfo(item: QuickInfoItem | undefined, part: TemplatePart, piece: TemplatePartPiece): TS.QuickInfo | undefined{
 		if (!item || (!item.type && !item.description)) {
 			return undefined
@@ -0,0 +1,332 @@
+import type * as TS from 'typescript'
+import {WorkSpaceAnalyzer, LuposItem} from './analyzer'
+import {Template, TemplateProvider} from '../template-service'
+import {TemplatePart, TemplatePartPiece, TemplatePartPieceType, TemplatePartType} from '../lupos-ts-module'
+import {ProjectContext, ts} from '../core'
+
+
+/** A location of a lupos item which referenced by a template, template local. */
+export interface TemplateReferenceLocation {
+	template: Template
+	start: number
+	length: number
+}
+
+
+/**
+ * Help to find lupos items like components, properties, events and bindings,
+ * and all their references inside templates of whole workspace.
+ */
+export class LuposReferences {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+	readonly templateProvider: TemplateProvider
+
+	/** Cache filled slot element name nodes for each program version. */
+	private filledSlotNameNodesCache: WeakMap<TS.Program, Set<TS.Node>> = new WeakMap()
+
+	constructor(analyzer: WorkSpaceAnalyzer, templateProvider: TemplateProvider) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+		this.templateProvider = templateProvider
+	}
+
+	/** Get lupos item referenced at a template part piece. */
+	getItemAt(part: TemplatePart, piece: TemplatePartPiece, template: Template): LuposItem | undefined {
+
+		// `<A`
+		if (part.type === TemplatePartType.Component) {
+			if (piece.type === TemplatePartPieceType.TagName) {
+				return this.analyzer.getComponentByTagName(part.node.tagName!, template)
+			}
+		}
+
+		// :xxx
+		else if (part.type === TemplatePartType.Binding) {
+			if (piece.type === TemplatePartPieceType.Name) {
+				return this.analyzer.getBindingByName(part.mainName!, template)
+			}
+		}
+
+		// .xxx
+		else if (part.type === TemplatePartType.Property) {
+			if (piece.type === TemplatePartPieceType.Name) {
+				let component = this.analyzer.getComponentByTagName(part.node.tagName!, template)
+				return component ? this.analyzer.getComponentProperty(component, part.mainName!) : undefined
+			}
+		}
+
+		// @xxx
+		else if (part.type === TemplatePartType.Event) {
+			if (piece.type === TemplatePartPieceType.Name) {
+				let component = this.analyzer.getComponentByTagName(part.node.tagName!, template)
+				return component ? this.analyzer.getComponentEvent(component, part.mainName!) : undefined
+			}
+		}
+
+		return undefined
+	}
+
+	/**
+	 * Get lupos item which declared at, or referenced by a typescript position.
+	 * `offset` is global offset.
+	 */
+	getItemAtTSPosition(fileName: string, offset: number): LuposItem | undefined {
+		let definitions = this.context.service.getDefinitionAtPosition(fileName, offset)
+		if (!definitions) {
+			return undefined
+		}
+
+		for (let definition of definitions) {
+			for (let item of this.walkItems()) {
+				let nameNode = item.nameNode
+
+				if (nameNode.getSourceFile().fileName === definition.fileName
+					&& nameNode.getStart() === definition.textSpan.start
+				) {
+					return item
+				}
+			}
+		}
+
+		return undefined
+	}
+
+	/** 
+	 * Find references of lupos item at a template part piece,
+	 * merge references of typescript with template ones.
+	 * Returned references are located in global origin.
+	 */
+	findReferences(part: TemplatePart, piece: TemplatePartPiece, template: Template): TS.ReferencedSymbol[] | undefined {
+		let item = this.getItemAt(part, piece, template)
+		if (!item) {
+			return undefined
+		}
+
+		let nameNode = item.nameNode
+		let symbols = this.context.service.findReferences(nameNode.getSourceFile().fileName, nameNode.getStart()) ?? []
+
+		return this.mergeReferences(symbols, item)
+	}
+
+	/** 
+	 * Merge template references to typescript references of a typescript declaration or reference.
+	 * `offset` is global offset, returned references are located in global origin.
+	 */
+	mergeTemplateReferences(fileName: string, offset: number, symbols: TS.ReferencedSymbol[]): TS.ReferencedSymbol[] {
+		let item = this.getItemAtTSPosition(fileName, offset)
+		if (!item) {
+			return symbols
+		}
+
+		return this.mergeReferences(symbols, item)
+	}
+
+	private mergeReferences(symbols: TS.ReferencedSymbol[], item: LuposItem): TS.ReferencedSymbol[] {
+		let entries = this.findTemplateLocations(item).map(location => this.makeReferenceEntry(location))
+		if (entries.length === 0) {
+			return symbols
+		}
+
+		let nameNode = item.nameNode
+		let fileName = nameNode.getSourceFile().fileName
+
+		let symbol = symbols.find(symbol => {
+			return symbol.definition.fileName === fileName
+				&& symbol.definition.textSpan.start === nameNode.getStart()
+		})
+
+		if (symbol) {
+			return symbols.map(s => s === symbol ? {...s, references: [...s.references, ...entries]} : s)
+		}
+
+		return [...symbols, {
+			definition: this.makeDefinition(item),
+			references: entries,
+		}]
+	}
+
+	private makeReferenceEntry(location: TemplateReferenceLocation): TS.ReferencedSymbolEntry {
+		let template = location.template
+		let start = template.localOffsetToGlobal(location.start)
+
+		return {
+			fileName: template.fileName,
+			textSpan: {
+				start,
+				length: location.length,
+			},
+			isWriteAccess: false,
+			isDefinition: false,
+		}
+	}
+
+	private makeDefinition(item: LuposItem): TS.ReferencedSymbolDefinitionInfo {
+		let nameNode = item.nameNode
+		let fileName = nameNode.getSourceFile().fileName
+
+		return {
+			fileName,
+			textSpan: {
+				start: nameNode.getStart(),
+				length: nameNode.getWidth(),
+			},
+			kind: ts.ScriptElementKind.unknown,
+			name: item.name,
+			containerKind: ts.ScriptElementKind.scriptElement,
+			containerName: fileName,
+			displayParts: [{
+				kind: 'text',
+				text: item.name,
+			}],
+		}
+	}
+
+	/** Walk all components, component properties and events, bindings of workspace. */
+	private *walkItems(): Iterable<LuposItem> {
+		for (let component of this.analyzer.getComponentsForCompletion('')) {
+			yield component
+			yield* Object.values(component.properties)
+			yield* Object.values(component.events)
+		}
+
+		yield* this.analyzer.getBindingsForCompletion('')
+	}
+
+	/** Find all references of a lupos item inside templates of whole workspace. */
+	findTemplateLocations(item: LuposItem): TemplateReferenceLocation[] {
+		let locations: TemplateReferenceLocation[] = []
+
+		for (let sourceFile of this.context.program.getSourceFiles()) {
+			if (sourceFile.isDeclarationFile || !sourceFile.text.includes(item.name)) {
+				continue
+			}
+
+			for (let template of this.templateProvider.getAllTemplates(sourceFile.fileName)) {
+				for (let part of template.parts) {
+					locations.push(...this.findPartLocations(part, item, template))
+				}
+			}
+		}
+
+		return locations
+	}
+
+	/** 
+	 * Get name nodes of all slot elements which are filled by `:slot="name"`,
+	 * inside templates of whole workspace.
+	 * Result is cached until program changes.
+	 */
+	getFilledSlotElementNameNodes(): Set<TS.Node> {
+		let program = this.context.program
+		let nameNodes = this.filledSlotNameNodesCache.get(program)
+
+		if (!nameNodes) {
+			nameNodes = this.findFilledSlotElementNameNodes()
+			this.filledSlotNameNodesCache.set(program, nameNodes)
+		}
+
+		return nameNodes
+	}
+
+	private findFilledSlotElementNameNodes(): Set<TS.Node> {
+		let nameNodes: Set<TS.Node> = new Set()
+
+		for (let sourceFile of this.context.program.getSourceFiles()) {
+			if (sourceFile.isDeclarationFile || !sourceFile.text.includes(':slot')) {
+				continue
+			}
+
+			for (let template of this.templateProvider.getAllTemplates(sourceFile.fileName)) {
+				for (let part of template.parts) {
+					if (part.type !== TemplatePartType.Binding || part.mainName !== 'slot' || !part.attr?.value) {
+						continue
+					}
+
+					let owner = this.analyzer.getSlotOwnerComponent(part.node, template)
+					let property = owner ? this.analyzer.getComponentSubProperties(owner, 'slotElements', part.attr.value) : undefined
+
+					if (property) {
+						nameNodes.add(property.nameNode)
+					}
+				}
+			}
+		}
+
+		return nameNodes
+	}
+
+	/** Find references of a lupos item inside a template part. */
+	private findPartLocations(part: TemplatePart, item: LuposItem, template: Template): TemplateReferenceLocation[] {
+
+		// `<A`, include both start and end tag.
+		if (part.type === TemplatePartType.Component) {
+			let component = this.analyzer.getComponentByTagName(part.node.tagName!, template)
+			if (!this.isSameItem(component, item)) {
+				return []
+			}
+
+			return template.getTagNameRanges(part.node).map(span => ({template, ...span}))
+		}
+
+		let referenced: LuposItem | undefined
+
+		// :xxx
+		if (part.type === TemplatePartType.Binding) {
+			referenced = this.analyzer.getBindingByName(part.mainName!, template)
+		}
+
+		// .xxx
+		else if (part.type === TemplatePartType.Property) {
+			let component = this.analyzer.getComponentByTagName(part.node.tagName!, template)
+			referenced = component ? this.analyzer.getComponentProperty(component, part.mainName!) : undefined
+		}
+
+		// @xxx
+		else if (part.type === TemplatePartType.Event) {
+			let component = this.analyzer.getComponentByTagName(part.node.tagName!, template)
+			referenced = component ? this.analyzer.getComponentEvent(component, part.mainName!) : undefined
+		}
+
+		if (!this.isSameItem(referenced, item)) {
+			return []
+		}
+
+		let nameRange = template.getPartNameRange(part)
+		return nameRange ? [{template, ...nameRange}] : []
+	}
+
+	/** 
+	 * Get names of components and binding classes referenced by a template,
+	 * they may be imported or declared but referenced only by template.
+	 */
+	getReferencedNames(template: Template): string[] {
+		let names: Set<string> = new Set()
+
+		for (let part of template.parts) {
+
+			// `<A`
+			if (part.type === TemplatePartType.Component) {
+				names.add(part.node.tagName!)
+			}
+
+			// :xxx
+			else if (part.type === TemplatePartType.Binding) {
+				let binding = this.analyzer.getBindingByName(part.mainName!, template)
+				let className = binding?.declaration.name?.text
+
+				if (className) {
+					names.add(className)
+				}
+			}
+		}
+
+		return [...names]
+	}
+
+	/** Items are re-generated after analyzing, so compare their name nodes. */
+	private isSameItem(item1: LuposItem | null | undefined, item2: LuposItem): boolean {
+		return !!item1 && item1.nameNode === item2.nameNode
+	}
+}
@@ -0,0 +1,110 @@
+import type * as TS from 'typescript'
+import {LuposItem} from './analyzer'
+import {LuposReferences, TemplateReferenceLocation} from './references'
+import {Template} from '../template-service'
+import {TemplatePart, TemplatePartPiece} from '../lupos-ts-module'
+import {ProjectContext} from '../core'
+
+
+/**
+ * Provide lupos rename service,
+ * rename both typescript declaration and all template references.
+ */
+export class LuposRename {
+
+	readonly references: LuposReferences
+	readonly context: ProjectContext
+
+	constructor(references: LuposReferences) {
+		this.references = references
+		this.context = references.context
+	}
+
+	/** Returned trigger span is template local. */
+	getRenameInfo(part: TemplatePart, piece: TemplatePartPiece, template: Template, preferences: TS.UserPreferences): TS.RenameInfo | undefined {
+		let item = this.references.getItemAt(part, piece, template)
+		if (!item) {
+			return undefined
+		}
+
+		// Let typescript decide whether declaration can be renamed.
+		let nameNode = item.nameNode
+		let info = this.context.service.getRenameInfo(nameNode.getSourceFile().fileName, nameNode.getStart(), preferences)
+		if (!info.canRename) {
+			return info
+		}
+
+		return {
+			...info,
+			triggerSpan: {
+				start: piece.start,
+				length: piece.end - piece.start,
+			},
+		}
+	}
+
+	/** Returned locations are located in global origin. */
+	findRenameLocations(part: TemplatePart, piece: TemplatePartPiece, template: Template, preferences: TS.UserPreferences): TS.RenameLocation[] | undefined {
+		let item = this.references.getItemAt(part, piece, template)
+		if (!item) {
+			return undefined
+		}
+
+		let nameNode = item.nameNode
+		let tsLocations = this.context.service.findRenameLocations(nameNode.getSourceFile().fileName, nameNode.getStart(), false, false, preferences) ?? []
+
+		return this.mergeLocations(tsLocations, this.getTemplateRenameLocations(item))
+	}
+
+	/**
+	 * Find rename locations inside templates for a typescript declaration or reference.
+	 * Returned locations are located in global origin.
+	 */
+	findTemplateRenameLocations(fileName: string, offset: number): TS.RenameLocation[] {
+		let item = this.references.getItemAtTSPosition(fileName, offset)
+		if (!item) {
+			return []
+		}
+
+		return this.getTemplateRenameLocations(item)
+	}
+
+	private getTemplateRenameLocations(item: LuposItem): TS.RenameLocation[] {
+		return this.references.findTemplateLocations(item)
+
+			// Can only rename when referenced by same name.
+			.filter(location => location.template.content.slice(location.start, location.start + location.length) === item.name)
+			.map(location => this.makeRenameLocation(location))
+	}
+
+	private makeRenameLocation(location: TemplateReferenceLocation): TS.RenameLocation {
+		let template = location.template
+		let start = template.localOffsetToGlobal(location.start)
+
+		return {
+			fileName: template.fileName,
+			textSpan: {
+				start,
+				length: location.length,
+			},
+		}
+	}
+
+	/** Merge typescript rename locations with template ones, remove repetitive. */
+	private mergeLocations(tsLocations: readonly TS.RenameLocation[], templateLocations: TS.RenameLocation[]): TS.RenameLocation[] {
+		let locations = [...tsLocations]
+
+		for (let location of templateLocations) {
+			let repetitive = locations.some(l => {
+				return l.fileName === location.fileName
+					&& l.textSpan.start === location.textSpan.start
+			})
+
+			if (!repetitive) {
+				locations.push(location)
+			}
+		}
+
+		return locations
+	}
+}
@@ -0,0 +1,132 @@
+import type * as TS from 'typescript'
+import {WorkSpaceAnalyzer} from './analyzer'
+import {Template} from '../template-service'
+import {TemplatePart, TemplatePartType, TemplateSlotPlaceholder} from '../lupos-ts-module'
+import {ProjectContext} from '../core'
+
+
+/**
+ * Token types, same as typescript semantic token types.
+ * Must not extend them, vscode typescript extension decodes them by a fixed legend,
+ * so can't provide lupos specified `event`, `decorator`, `keyword` types and `deprecated` modifier.
+ * Instead, events are classified as methods, bindings as functions, and `lu:` tags as namespaces.
+ */
+export enum SemanticTokenType {
+	Class,
+	Enum,
+	Interface,
+	Namespace,
+	TypeParameter,
+	Type,
+	Parameter,
+	Variable,
+	EnumMember,
+	Property,
+	Function,
+	Method,
+}
+
+
+/**
+ * Provide lupos semantic classifications service,
+ * encoded classifications in the same format as typescript 2020 semantic classifications.
+ */
+export class LuposSemanticClassifications {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+
+	constructor(analyzer: WorkSpaceAnalyzer) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+	}
+
+	/** Returns triples of `start, length, classification`, start is template local. */
+	getClassifications(template: Template): number[] {
+		let classifications: number[] = []
+
+		for (let part of template.parts) {
+			for (let [span, classification] of this.classifyPart(part, template)) {
+				classifications.push(span.start, span.length, classification)
+			}
+		}
+
+		return classifications
+	}
+
+	private *classifyPart(part: TemplatePart, template: Template): Iterable<[TS.TextSpan, number]> {
+
+		// `<A`, only classify known components.
+		if (part.type === TemplatePartType.Component) {
+			let component = this.analyzer.getComponentByTagName(part.node.tagName!, template)
+			if (!component) {
+				return
+			}
+
+			let classification = this.encode(SemanticTokenType.Class)
+
+			for (let span of template.getTagNameRanges(part.node)) {
+				yield [span, classification]
+			}
+		}
+
+		// `<lu:if`, classify as namespace.
+		else if (part.type === TemplatePartType.FlowControl) {
+			let classification = this.encode(SemanticTokenType.Namespace)
+
+			for (let span of template.getTagNameRanges(part.node)) {
+				yield [span, classification]
+			}
+		}
+
+		// :xxx, only classify known bindings, classify as function.
+		else if (part.type === TemplatePartType.Binding) {
+			let binding = this.analyzer.getBindingByName(part.mainName!, template)
+			if (!binding) {
+				return
+			}
+
+			yield* this.classifyPartNameAndModifiers(part, template, SemanticTokenType.Function)
+		}
+
+		// .xxx
+		else if (part.type === TemplatePartType.Property) {
+			let component = TemplateSlotPlaceholder.isComponent(part.node.tagName!)
+				? this.analyzer.getComponentByTagName(part.node.tagName!, template)
+				: null
+
+			let property = component ? this.analyzer.getComponentProperty(component, part.mainName!) : undefined
+
+			// Unknown property of a known component.
+			if (component && !property) {
+				return
+			}
+
+			yield* this.classifyPartNameAndModifiers(part, template, SemanticTokenType.Property)
+		}
+
+		// @xxx, classify as method.
+		else if (part.type === TemplatePartType.Event) {
+			yield* this.classifyPartNameAndModifiers(part, template, SemanticTokenType.Method)
+		}
+	}
+
+	/** Classify name as specified type, and modifiers as enum members. */
+	private *classifyPartNameAndModifiers(part: TemplatePart, template: Template, type: SemanticTokenType): Iterable<[TS.TextSpan, number]> {
+		let nameRange = template.getPartNameRange(part)
+		if (nameRange) {
+			yield [nameRange, this.encode(type)]
+		}
+
+		let modifierClassification = this.encode(SemanticTokenType.EnumMember)
+
+		for (let span of template.getPartModifierRanges(part)) {
+			yield [span, modifierClassification]
+		}
+	}
+
+	/** Encode like typescript, `(type + 1) << 8 | modifierBits`, lupos provides no modifiers. */
+	private encode(type: SemanticTokenType): number {
+		return (type + 1) << 8
+	}
+}
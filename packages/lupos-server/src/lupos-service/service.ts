@@ -4,9 +4,20 @@ import {LuposCompletion} from './completion'
 import {LuposQuickInfo} from './quickinfo'
 import {LuposDefinition} from './definition'
 import {ProjectContext} from '../core'
-import {Template} from '../template-service'
+import {Template, TemplateProvider} from '../template-service'
 import {DiagnosticModifier, getTemplatePartPieceAt, TemplateDiagnostics} from '../lupos-ts-module'
 import {LuposCodeFixes} from './code-fixes'
+import {LuposReferences} from './references'
+import {LuposRename} from './rename'
+import {LuposSemanticClassifications} from './semantic-classifications'
+import {LuposSignatureHelp} from './signature-help'
+import {LuposInlayHints} from './inlay-hints'
+import {LuposNavigateTo} from './navigate-to'
+import {LuposDiagnostics} from './diagnostics'
+import {LuposFlowControlNarrowing} from './flow-control-narrowing'
+import {LuposForRenderer} from './for-renderer'
+import {LuposClassDiagnostics} from './class-diagnostics'
+import {LuposClassCodeFixes} from './class-code-fixes'
 
 
 /** Provide lupos language service for a single. */
@@ -19,16 +30,38 @@ export class LuposService {
 	private quickInfo: LuposQuickInfo
 	private definition: LuposDefinition
 	private diagnostics: TemplateDiagnostics
+	private luposDiagnostics: LuposDiagnostics
+	private flowControlNarrowing: LuposFlowControlNarrowing
+	private forRenderer: LuposForRenderer
+	private classDiagnostics: LuposClassDiagnostics
+	private classCodeFixes: LuposClassCodeFixes
 	private codeFixes: LuposCodeFixes
+	private references: LuposReferences
+	private rename: LuposRename
+	private semanticClassifications: LuposSemanticClassifications
+	private signatureHelp: LuposSignatureHelp
+	private inlayHints: LuposInlayHints
+	private navigateTo: LuposNavigateTo
 
-	constructor(context: ProjectContext) {
+	constructor(context: ProjectContext, templateProvider: TemplateProvider) {
 		this.context = context
 		this.analyzer = new WorkSpaceAnalyzer(context)
 		this.completion = new LuposCompletion(this.analyzer)
 		this.quickInfo = new LuposQuickInfo(this.analyzer)
 		this.definition = new LuposDefinition(this.analyzer)
 		this.diagnostics = new TemplateDiagnostics(this.analyzer)
+		this.references = new LuposReferences(this.analyzer, templateProvider)
+		this.flowControlNarrowing = new LuposFlowControlNarrowing(this.analyzer)
+		this.luposDiagnostics = new LuposDiagnostics(this.analyzer, this.references, this.flowControlNarrowing)
+		this.forRenderer = new LuposForRenderer(this.analyzer)
+		this.classDiagnostics = new LuposClassDiagnostics(this.analyzer)
+		this.classCodeFixes = new LuposClassCodeFixes(this.analyzer)
 		this.codeFixes = new LuposCodeFixes(this.analyzer)
+		this.rename = new LuposRename(this.references)
+		this.semanticClassifications = new LuposSemanticClassifications(this.analyzer)
+		this.signatureHelp = new LuposSignatureHelp(this.analyzer)
+		this.inlayHints = new LuposInlayHints(this.analyzer)
+		this.navigateTo = new LuposNavigateTo(this.analyzer)
 	}
 
 	/** Make sure to reload changed source files. */
@@ -87,6 +120,47 @@ export class LuposService {
 	modifyDiagnostics(template: Template, modifier: DiagnosticModifier) {
 		this.beFresh()
 		this.diagnostics.diagnose(template.getAllParts(), template, modifier)
+		this.luposDiagnostics.diagnose(template, modifier)
+		this.forRenderer.diagnose(template, modifier)
+	}
+
+	/** Filter typescript diagnostics of template slots, diagnostics are located in global origin. */
+	filterSlotDiagnostics<D extends TS.Diagnostic>(template: Template, diagnostics: D[]): D[] {
+		this.beFresh()
+		return this.flowControlNarrowing.filterDiagnostics(template, diagnostics)
+	}
+
+	/** Get quick info of a parameter of a slot function, `textSpan` is in global origin. */
+	getSlotParameterQuickInfo(template: Template, parameter: TS.ParameterDeclaration, textSpan: TS.TextSpan): TS.QuickInfo | undefined {
+		this.beFresh()
+		return this.forRenderer.getParameterQuickInfo(template, parameter, textSpan)
+	}
+
+	/** Modify diagnostics of a source file, which are not located in templates. */
+	modifySourceFileDiagnostics(sourceFile: TS.SourceFile, modifier: DiagnosticModifier) {
+		this.beFresh()
+		this.luposDiagnostics.diagnoseSourceFile(sourceFile, modifier)
+		this.classDiagnostics.diagnose(sourceFile, modifier)
+	}
+
+	getSupportedCodeFixes(): number[] {
+		return [
+			...this.codeFixes.getSupportedCodes(),
+			...this.classCodeFixes.getSupportedCodes(),
+			...this.forRenderer.getSupportedCodes(),
+		]
+	}
+
+	/** Get code fixes of a source file, which are not located in templates. */
+	getSourceFileCodeFixes(sourceFile: TS.SourceFile, start: number, end: number, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] {
+		this.beFresh()
+		return this.classCodeFixes.getCodeFixes(sourceFile, start, end, errorCodes)
+	}
+
+	/** Get code fixes of template slots, `start` and `end` are in global origin. */
+	getSlotCodeFixes(template: Template, start: number, end: number, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] {
+		this.beFresh()
+		return this.forRenderer.getCodeFixes(template, start, end, errorCodes)
 	}
 
 	getCodeFixesAtPosition(template: Template, temOffset: number, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] | undefined {
@@ -104,4 +178,98 @@ export class LuposService {
 
 		return this.codeFixes.getCodeFixes(part, piece, template, errorCodes)
 	}
+
+	getRenameInfo(template: Template, temOffset: number, preferences: TS.UserPreferences): TS.RenameInfo | undefined {
+		let part = template.getPartAt(temOffset)
+		if (!part) {
+			return undefined
+		}
+
+		let piece = getTemplatePartPieceAt(part, temOffset)
+		if (!piece) {
+			return undefined
+		}
+
+		this.beFresh()
+
+		return this.rename.getRenameInfo(part, piece, template, preferences)
+	}
+
+	findRenameLocations(template: Template, temOffset: number, preferences: TS.UserPreferences): TS.RenameLocation[] | undefined {
+		let part = template.getPartAt(temOffset)
+		if (!part) {
+			return undefined
+		}
+
+		let piece = getTemplatePartPieceAt(part, temOffset)
+		if (!piece) {
+			return undefined
+		}
+
+		this.beFresh()
+
+		return this.rename.findRenameLocations(part, piece, template, preferences)
+	}
+
+	findTemplateRenameLocations(fileName: string, offset: number): TS.RenameLocation[] {
+		this.beFresh()
+		return this.rename.findTemplateRenameLocations(fileName, offset)
+	}
+
+	findReferences(template: Template, temOffset: number): TS.ReferencedSymbol[] | undefined {
+		let part = template.getPartAt(temOffset)
+		if (!part) {
+			return undefined
+		}
+
+		let piece = getTemplatePartPieceAt(part, temOffset)
+		if (!piece) {
+			return undefined
+		}
+
+		this.beFresh()
+
+		return this.references.findReferences(part, piece, template)
+	}
+
+	mergeTemplateReferences(fileName: string, offset: number, symbols: TS.ReferencedSymbol[]): TS.ReferencedSymbol[] {
+		this.beFresh()
+		return this.references.mergeTemplateReferences(fileName, offset, symbols)
+	}
+
+	getSemanticClassifications(template: Template): number[] {
+		this.beFresh()
+		return this.semanticClassifications.getClassifications(template)
+	}
+
+	getSignatureHelp(template: Template, temOffset: number): TS.SignatureHelpItems | undefined {
+		let part = template.getPartAt(temOffset)
+		if (!part) {
+			return undefined
+		}
+
+		let piece = getTemplatePartPieceAt(part, temOffset)
+		if (!piece) {
+			return undefined
+		}
+
+		this.beFresh()
+
+		return this.signatureHelp.getSignatureHelp(part, piece, template)
+	}
+
+	getInlayHints(template: Template): TS.InlayHint[] {
+		this.beFresh()
+		return this.inlayHints.getInlayHints(template)
+	}
+
+	getNavigateToItems(searchValue: string): TS.NavigateToItem[] {
+		this.beFresh()
+		return this.navigateTo.getNavigateToItems(searchValue)
+	}
+
+	getReferencedNames(template: Template): string[] {
+		this.beFresh()
+		return this.references.getReferencedNames(template)
+	}
 }
\ No newline at end of file
@@ -0,0 +1,175 @@
+import type * as TS from 'typescript'
+import {WorkSpaceAnalyzer} from './analyzer'
+import {Template} from '../template-service'
+import {isSimulatedEventName, TemplatePart, TemplatePartPiece, TemplatePartPieceType, TemplatePartType, TemplateSlotPlaceholder} from '../lupos-ts-module'
+import {ProjectContext, ts} from '../core'
+
+
+/** A parameter of signature to show. */
+interface SignatureParameter {
+	name: string
+	type: TS.Type
+	optional: boolean
+}
+
+
+/**
+ * Provide lupos signature help service,
+ * show expected signature of event handlers and binding values in slots.
+ */
+export class LuposSignatureHelp {
+
+	readonly analyzer: WorkSpaceAnalyzer
+	readonly context: ProjectContext
+
+	constructor(analyzer: WorkSpaceAnalyzer) {
+		this.analyzer = analyzer
+		this.context = analyzer.context
+	}
+
+	/** Returned applicable span is template local. */
+	getSignatureHelp(part: TemplatePart, piece: TemplatePartPiece, template: Template): TS.SignatureHelpItems | undefined {
+
+		// Only for `xxx=${...}`.
+		if (piece.type !== TemplatePartPieceType.AttrValue || !part.valueIndices?.length) {
+			return undefined
+		}
+
+		let item: TS.SignatureHelpItem | undefined
+
+		// @xxx=${...}
+		if (part.type === TemplatePartType.Event) {
+			item = this.getEventSignatureItem(part, template)
+		}
+
+		// :xxx=${...}
+		else if (part.type === TemplatePartType.Binding) {
+			item = this.getBindingSignatureItem(part, template)
+		}
+
+		if (!item) {
+			return undefined
+		}
+
+		return {
+			items: [item],
+			applicableSpan: {
+				start: piece.start,
+				length: piece.end - piece.start,
+			},
+			selectedItemIndex: 0,
+			argumentIndex: 0,
+			argumentCount: 1,
+		}
+	}
+
+	/** Get handler signature from component events interface, or `HTMLElementEventMap`. */
+	private getEventSignatureItem(part: TemplatePart, template: Template): TS.SignatureHelpItem | undefined {
+		let mainName = part.mainName!
+		let tagName = part.node.tagName!
+		let label = '@' + mainName
+
+		// `@click` of component.
+		if (TemplateSlotPlaceholder.isComponent(tagName) && !isSimulatedEventName(mainName)) {
+			let component = this.analyzer.getComponentByTagName(tagName, template)
+			let event = component ? this.analyzer.getComponentEvent(component, mainName) : undefined
+
+			if (event) {
+				let signature = event.type.getCallSignatures()[0]
+				if (!signature) {
+					return undefined
+				}
+
+				return this.makeSignatureItem(label, this.getSignatureParameters(signature), signature.getReturnType(), event.description)
+			}
+		}
+
+		// `@click` of element, or not declared event of component.
+		let eventType = this.analyzer.getDOMEventType(mainName, template.sourceFile)
+		if (!eventType) {
+			return undefined
+		}
+
+		let parameters: SignatureParameter[] = [{
+			name: 'e',
+			type: eventType,
+			optional: false,
+		}]
+
+		return this.makeSignatureItem(label, parameters, null, '')
+	}
+
+	/** Get parameters of binding class `update()` method. */
+	private getBindingSignatureItem(part: TemplatePart, template: Template): TS.SignatureHelpItem | undefined {
+		let binding = this.analyzer.getBindingByName(part.mainName!, template)
+		if (!binding) {
+			return undefined
+		}
+
+		let typeChecker = this.context.typeChecker
+		let instanceType = typeChecker.getTypeAtLocation(binding.declaration)
+		let updateSymbol = instanceType.getProperty('update')
+		if (!updateSymbol) {
+			return undefined
+		}
+
+		let signature = typeChecker.getTypeOfSymbol(updateSymbol).getCallSignatures()[0]
+		if (!signature) {
+			return undefined
+		}
+
+		return this.makeSignatureItem(':' + binding.name + '.update', this.getSignatureParameters(signature), signature.getReturnType(), binding.description)
+	}
+
+	private getSignatureParameters(signature: TS.Signature): SignatureParameter[] {
+		let typeChecker = this.context.typeChecker
+
+		return signature.getParameters().map(param => {
+			let declaration = param.valueDeclaration
+			let optional = !!declaration && ts.isParameter(declaration) && typeChecker.isOptionalParameter(declaration)
+
+			return {
+				name: param.name,
+				type: typeChecker.getTypeOfSymbol(param),
+				optional,
+			}
+		})
+	}
+
+	/** Make signature item like `label(a: A, b?: B): R`. */
+	private makeSignatureItem(label: string, parameters: SignatureParameter[], returnType: TS.Type | null, description: string): TS.SignatureHelpItem {
+		let typeChecker = this.context.typeChecker
+		let returnTypeText = returnType ? typeChecker.typeToString(returnType) : 'void'
+
+		let helpParameters: TS.SignatureHelpParameter[] = parameters.map(param => {
+			return {
+				name: param.name,
+				documentation: [],
+				displayParts: [
+					{kind: 'parameterName', text: param.name},
+					{kind: 'punctuation', text: param.optional ? '?: ' : ': '},
+					{kind: 'text', text: typeChecker.typeToString(param.type)},
+				],
+				isOptional: param.optional,
+			}
+		})
+
+		return {
+			isVariadic: false,
+			prefixDisplayParts: [
+				{kind: 'text', text: label},
+				{kind: 'punctuation', text: '('},
+			],
+			suffixDisplayParts: [
+				{kind: 'punctuation', text: '): '},
+				{kind: 'text', text: returnTypeText},
+			],
+			separatorDisplayParts: [
+				{kind: 'punctuation', text: ', '},
+			],
+			parameters: helpParameters,
+			documentation: description ? [{kind: 'text', text: description}] : [],
+			tags: [],
+		}
+	}
+}
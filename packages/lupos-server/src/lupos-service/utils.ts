@@ -1,6 +1,7 @@
 import {CompletionItem} from '../complete-data'
 import {ts} from '../core'
-import {TemplatePart, TemplatePartPiece, TemplatePartPieceType, TemplatePartType, TemplateSlotPlaceholder} from '../lupos-ts-module'
+import {HTMLNode, HTMLNodeType, TemplatePart, TemplatePartPiece, TemplatePartPieceType, TemplatePartType, TemplateSlotPlaceholder} from '../lupos-ts-module'
+import {Template} from '../template-service'
 import type * as TS from 'typescript'
 
 
@@ -133,6 +134,106 @@ export function getSymbolDisplayPartKind(part: TemplatePart, piece: TemplatePart
 }
 
 
+/** Get names of all `.property` parts of a html node. */
+export function getPropertyNamesOfNode(node: HTMLNode, template: Template): string[] {
+	return template.parts
+		.filter(part => part.node === node && part.type === TemplatePartType.Property)
+		.map(part => part.mainName!)
+}
+
+
+/** Get previous sibling tag node, skip comments and whitespaces, but not other text. */
+export function getPreviousSiblingTag(node: HTMLNode): HTMLNode | null {
+	let siblings = node.parent?.children ?? []
+	let index = siblings.indexOf(node)
+
+	for (let i = index - 1; i >= 0; i--) {
+		let sibling = siblings[i]
+
+		if (sibling.type === HTMLNodeType.Tag) {
+			return sibling
+		}
+		else if (sibling.type === HTMLNodeType.Comment) {
+			continue
+		}
+		else if (sibling.type === HTMLNodeType.Text && !sibling.text!.trim()) {
+			continue
+		}
+
+		return null
+	}
+
+	return null
+}
+
+
+/** Get indent of the line where node starts. */
+export function getNodeIndent(node: TS.Node): string {
+	let text = node.getSourceFile().text
+	let start = node.getStart()
+	let lineStart = text.lastIndexOf('\n', start - 1) + 1
+
+	return text.slice(lineStart, start).match(/^\s*/)![0]
+}
+
+
+/** Get indent unit of a source file, from the first indented code line, default is tab. */
+export function getIndentUnit(sourceFile: TS.SourceFile): string {
+	// Not match ` * ...` of doc comments.
+	return sourceFile.text.match(/\n([ \t]+)[^\s*]/)?.[1] ?? '\t'
+}
+
+
+/** Get indent of members of a class declaration, from an existing member, or deeper than class. */
+export function getMemberIndent(declaration: TS.ClassDeclaration): string {
+	if (declaration.members.length > 0) {
+		return getNodeIndent(declaration.members[0])
+	}
+
+	return getNodeIndent(declaration) + getIndentUnit(declaration.getSourceFile())
+}
+
+
+/** Get edit distance of two strings, which is the least count of insertion, deletion and substitution. */
+export function getEditDistance(a: string, b: string): number {
+	let previous: number[] = []
+	let current: number[] = []
+
+	for (let j = 0; j <= b.length; j++) {
+		previous[j] = j
+	}
+
+	for (let i = 1; i <= a.length; i++) {
+		current[0] = i
+
+		for (let j = 1; j <= b.length; j++) {
+			let cost = a[i - 1] === b[j - 1] ? 0 : 1
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+		}
+
+		[previous, current] = [current, previous]
+	}
+
+	return previous[b.length]
+}
+
+
+/** 
+ * Get names which are closest to `name` by edit distance, sorted by distance.
+ * Names which are too different are excluded.
+ */
+export function getClosestNames(name: string, candidates: string[], maxCount: number = 3): string[] {
+	let maxDistance = Math.max(2, Math.floor(name.length * 0.4))
+
+	return candidates
+		.map(candidate => ({candidate, distance: getEditDistance(name.toLowerCase(), candidate.toLowerCase())}))
+		.filter(item => item.distance <= maxDistance)
+		.sort((a, b) => a.distance - b.distance)
+		.slice(0, maxCount)
+		.map(item => item.candidate)
+}
+
+
 /** Get relative path. */
 export function pathRelative(currentPath: string, targetPath: string): string | undefined {
 	let currentPieces = currentPath.split('/')
@@ -6,6 +6,7 @@ import type * as TS from 'typescript'
 import {Template, TemplateProvider, TemplateLanguageService, TemplateServiceRouter} from '../template-service'
 import {ProjectContext, ts} from '../core'
 import {DiagnosticModifier} from '../lupos-ts-module'
+import {TemplateReferencedImports} from './template-referenced-imports'
 
 
 /** from `(A, B) => C` to `(D: () => C, A, B) => C` */
@@ -28,12 +29,14 @@ export class TSLanguageServiceProxy {
 	readonly templateService: TemplateLanguageService
 
 	private templateProvider: TemplateProvider
+	private referencedImports: TemplateReferencedImports
 	private readonly wrappers: {name: keyof TS.LanguageService, wrapper: LanguageServiceWrapper<any>}[] = []
 
 	constructor(context: ProjectContext) {
 		this.context = context
-		this.templateService = new TemplateServiceRouter(context)
 		this.templateProvider = new TemplateProvider(context)
+		this.templateService = new TemplateServiceRouter(context, this.templateProvider)
+		this.referencedImports = new TemplateReferencedImports(context, this.templateProvider, this.templateService)
 
 		this.wrapGetCompletionsAtPosition()
 		this.wrapGetCompletionEntryDetails()
@@ -41,14 +44,26 @@ export class TSLanguageServiceProxy {
 		this.wrapGetDefinitionAtPosition()
 		this.wrapGetDefinitionAndBoundSpan()
 		this.wrapGetSemanticDiagnostics()
+		this.wrapGetSuggestionDiagnostics()
 		this.wrapGetSyntacticDiagnostics()
 		this.wrapGetFormattingEditsForRange()
 		this.wrapGetCodeFixesAtPosition()
+		this.wrapGetCombinedCodeFix()
+		this.wrapOrganizeImports()
 		this.wrapGetSupportedCodeFixes()
 		this.wrapGetSignatureHelpItemsAtPosition()
 		this.wrapGetOutliningSpans()
 		this.wrapGetReferencesAtPosition()
 		this.wrapGetJsxClosingTagAtPosition()
+		this.wrapGetLinkedEditingRangeAtPosition()
+		this.wrapGetSmartSelectionRange()
+		this.wrapGetNavigationTree()
+		this.wrapGetNavigationBarItems()
+		this.wrapGetNavigateToItems()
+		this.wrapGetRenameInfo()
+		this.wrapFindRenameLocations()
+		this.wrapGetEncodedSemanticClassifications()
+		this.wrapProvideInlayHints()
 	}
 
 	/** Decorate with low level typescript language service. */
@@ -111,7 +126,12 @@ export class TSLanguageServiceProxy {
 	/** From template origin to global origin. */
 	private translateTextSpan(textSpan: TS.TextSpan | undefined, template: Template) {
 		if (textSpan) {
+
+			// Length may also be changed if span contains slots.
+			let end = template.localOffsetToGlobal(textSpan.start + textSpan.length)
+
 			textSpan.start = template.localOffsetToGlobal(textSpan.start)
+			textSpan.length = end - textSpan.start
 		}
 	}
 
@@ -146,7 +166,7 @@ export class TSLanguageServiceProxy {
 		this.wrap('getQuickInfoAtPosition', (callOriginal, fileName: string, offsetGlo: number) => {
 			let template = this.templateProvider.getTemplateAt(fileName, offsetGlo)
 			if (!template) {
-				return callOriginal()
+				return this.getSlotParameterQuickInfo(fileName, offsetGlo) ?? callOriginal()
 			}
 			
 			// Replace with lupos template completion.
@@ -165,6 +185,42 @@ export class TSLanguageServiceProxy {
 		})
 	}
 
+	/** 
+	 * Get quick info of parameter like `item` of `<lu:for>${(item) => ...}</lu:for>`,
+	 * both for the parameter declaration and it's references.
+	 */
+	private getSlotParameterQuickInfo(fileName: string, offsetGlo: number): TS.QuickInfo | undefined {
+		if (!this.templateService.getSlotParameterQuickInfo) {
+			return undefined
+		}
+
+		let sourceFile = this.context.program.getSourceFile(fileName)
+		let node = sourceFile ? this.context.helper.getNodeAtOffset(sourceFile, offsetGlo) : undefined
+		if (!node || !ts.isIdentifier(node)) {
+			return undefined
+		}
+
+		let declaration = this.context.typeChecker.getSymbolAtLocation(node)?.valueDeclaration
+		if (!declaration
+			|| !ts.isParameter(declaration)
+			|| !(ts.isArrowFunction(declaration.parent) || ts.isFunctionExpression(declaration.parent))
+		) {
+			return undefined
+		}
+
+		let slot = this.templateProvider.getTemplateBySlotAt(fileName, declaration.parent.getStart())
+		if (!slot || slot.template.valueNodes[slot.valueIndex] !== declaration.parent) {
+			return undefined
+		}
+
+		let textSpan = {
+			start: node.getStart(),
+			length: node.getWidth(),
+		}
+
+		return this.templateService.getSlotParameterQuickInfo(slot.template, declaration, textSpan)
+	}
+
 	private wrapGetDefinitionAtPosition() {
 		if (!this.templateService.getDefinitionAtPosition) {
 			return
@@ -215,10 +271,14 @@ export class TSLanguageServiceProxy {
 				let subDiagnostics = this.templateService.getSyntacticDiagnostics!(template)
 
 				subDiagnostics.forEach(diagnostic => {
-					diagnostic.start = template.localOffsetToGlobal(diagnostic.start!)
+					let span = {start: diagnostic.start!, length: diagnostic.length!}
+					this.translateTextSpan(span, template)
+
+					diagnostic.start = span.start
+					diagnostic.length = span.length
 				})
 
-				diagnostics.push(...diagnostics)
+				diagnostics.push(...subDiagnostics)
 			}
 
 			// Merge original diagnostics with template ones.
@@ -232,13 +292,21 @@ export class TSLanguageServiceProxy {
 		}
 
 		this.wrap('getSemanticDiagnostics', (callOriginal, fileName: string) => {
-			let diagnostics = callOriginal()
+			let diagnostics = this.referencedImports.filterDiagnostics(fileName, callOriginal())
 
 			let sourceFile = this.context.program.getSourceFile(fileName)
 			if (!sourceFile) {
 				return diagnostics
 			}
 
+			// Like removing nullish diagnostics narrowed by `<lu:if>`,
+			// or implicit any diagnostics of `<lu:for>` renderer.
+			if (this.templateService.filterSemanticDiagnostics) {
+				for (let template of this.templateProvider.getAllTemplates(fileName)) {
+					diagnostics = this.templateService.filterSemanticDiagnostics(template, diagnostics)
+				}
+			}
+
 			let modifier = new DiagnosticModifier(this.context.helper)
 			modifier.setStart(diagnostics, sourceFile)
 
@@ -246,11 +314,23 @@ export class TSLanguageServiceProxy {
 				this.templateService.modifySemanticDiagnostics!(template, modifier)
 			}
 
+			// Diagnostics of declarations outside of templates.
+			if (this.templateService.modifySourceFileSemanticDiagnostics) {
+				this.templateService.modifySourceFileSemanticDiagnostics(sourceFile, modifier)
+			}
+
 			// Diagnostics are already in global origin, no need to translate.
 			return modifier.getModified()
 		})
 	}
 
+	/** Unused diagnostics are suggestions when `noUnusedLocals` is not enabled. */
+	private wrapGetSuggestionDiagnostics() {
+		this.wrap('getSuggestionDiagnostics', (callOriginal, fileName: string) => {
+			return this.referencedImports.filterDiagnostics(fileName, callOriginal())
+		})
+	}
+
 	private wrapGetFormattingEditsForRange() {
 		if (!this.templateService.getFormattingEditsForRange) {
 			return
@@ -286,7 +366,11 @@ export class TSLanguageServiceProxy {
 		this.wrap('getCodeFixesAtPosition', (callOriginal, fileName: string, startGlo: number, endGlo: number, errorCodes: ReadonlyArray<number>, options: TS.FormatCodeSettings, preferences: TS.UserPreferences) => {
 			let template = this.templateProvider.getTemplateAt(fileName, startGlo)
 			if (!template) {
-				return callOriginal()
+				return [
+					...this.referencedImports.filterCodeFixes(fileName, callOriginal()),
+					...this.getSlotCodeFixes(fileName, startGlo, endGlo, errorCodes, options, preferences),
+					...this.getSourceFileCodeFixes(fileName, startGlo, endGlo, errorCodes, options, preferences),
+				]
 			}
 
 			let startTem = template.globalOffsetToLocal(startGlo)
@@ -303,6 +387,56 @@ export class TSLanguageServiceProxy {
 		})
 	}
 
+	/** Code fixes of component classes, which are not located in templates. */
+	private getSourceFileCodeFixes(
+		fileName: string,
+		startGlo: number,
+		endGlo: number,
+		errorCodes: ReadonlyArray<number>,
+		options: TS.FormatCodeSettings,
+		preferences: TS.UserPreferences
+	): readonly TS.CodeFixAction[] {
+		let sourceFile = this.context.program.getSourceFile(fileName)
+		if (!sourceFile || !this.templateService.getSourceFileCodeFixesAtPosition) {
+			return []
+		}
+
+		return this.templateService.getSourceFileCodeFixesAtPosition(sourceFile, startGlo, endGlo, errorCodes, options, preferences)
+	}
+
+	/** Code fixes inside template slots, like renderer parameters of `<lu:for>`. */
+	private getSlotCodeFixes(
+		fileName: string,
+		startGlo: number,
+		endGlo: number,
+		errorCodes: ReadonlyArray<number>,
+		options: TS.FormatCodeSettings,
+		preferences: TS.UserPreferences
+	): readonly TS.CodeFixAction[] {
+		if (!this.templateService.getSlotCodeFixesAtPosition) {
+			return []
+		}
+
+		let slot = this.templateProvider.getTemplateBySlotAt(fileName, startGlo)
+		if (!slot) {
+			return []
+		}
+
+		return this.templateService.getSlotCodeFixesAtPosition(slot.template, startGlo, endGlo, errorCodes, options, preferences)
+	}
+
+	private wrapGetCombinedCodeFix() {
+		this.wrap('getCombinedCodeFix', (callOriginal, scope: TS.CombinedCodeFixScope, fixId: {}) => {
+			return this.referencedImports.filterCombinedCodeFix(scope, fixId, callOriginal())
+		})
+	}
+
+	private wrapOrganizeImports() {
+		this.wrap('organizeImports', (callOriginal, args: TS.OrganizeImportsArgs, formatOptions: TS.FormatCodeSettings, preferences: TS.UserPreferences | undefined) => {
+			return this.referencedImports.protectOrganizeImports(callOriginal(), args, formatOptions, preferences)
+		})
+	}
+
 	private wrapGetSupportedCodeFixes() {
 		if (!this.templateService.getSupportedCodeFixes) {
 			return
@@ -326,18 +460,56 @@ export class TSLanguageServiceProxy {
 
 		this.wrap('getSignatureHelpItems', (callOriginal, fileName: string, offsetGlo: number, options?: TS.SignatureHelpItemsOptions) => {
 			let template = this.templateProvider.getTemplateAt(fileName, offsetGlo)
-			if (!template) {
-				return callOriginal()
+			if (template) {
+				let temOffset = template.globalOffsetToLocal(offsetGlo)
+				let items = this.templateService.getSignatureHelpItemsAtPosition!(template, temOffset, options)
+
+				if (items) {
+					this.translateTextSpan(items.applicableSpan, template)
+				}
+
+				// Replace original signature help to template ones.
+				return items
 			}
 
-			let temOffset = template.globalOffsetToLocal(offsetGlo)
-			let items = this.templateService.getSignatureHelpItemsAtPosition!(template, temOffset, options)
+			let originalItems = callOriginal()
+
+			// `@click=${(|)}`, `:binding=${|}`.
+			let slot = this.templateProvider.getTemplateBySlotAt(fileName, offsetGlo)
+			if (!slot) {
+				return originalItems
+			}
+
+			let valueNode = slot.template.valueNodes[slot.valueIndex]
+
+			// `${this.method(|)}`, signature help of a call inside slot.
+			if (originalItems
+				&& originalItems.applicableSpan.start >= valueNode.pos
+				&& originalItems.applicableSpan.start + originalItems.applicableSpan.length <= valueNode.end
+			) {
+				return originalItems
+			}
+
+			// `${(e) => {|}}`, only show when not inside function body.
+			if ((ts.isArrowFunction(valueNode) || ts.isFunctionExpression(valueNode))
+				&& offsetGlo > valueNode.body.getStart()
+			) {
+				return originalItems
+			}
+
+			let temOffset = slot.template.getSlotPlaceholderOffset(slot.valueIndex)
+			if (temOffset === -1) {
+				return originalItems
+			}
 
-			if (items) {
-				this.translateTextSpan(items.applicableSpan, template)
+			// Replace signature help of template tag function.
+			let items = this.templateService.getSignatureHelpItemsAtPosition!(slot.template, temOffset, options)
+			if (!items) {
+				return originalItems
 			}
 
-			// Replace original signature help to template ones.
+			this.translateTextSpan(items.applicableSpan, slot.template)
+
 			return items
 		})
 	}
@@ -371,21 +543,22 @@ export class TSLanguageServiceProxy {
 
 		this.wrap('findReferences', (callOriginal, fileName: string, offsetGlo: number) => {
 			let context = this.templateProvider.getTemplateAt(fileName, offsetGlo)
+
 			if (!context) {
-				return callOriginal()
+				let symbols = callOriginal()
+				if (!symbols || !this.templateService.mergeTemplateReferences) {
+					return symbols
+				}
+
+				// Merge original references with template ones.
+				return this.templateService.mergeTemplateReferences(fileName, offsetGlo, symbols)
 			}
 
 			let temOffset = context.globalOffsetToLocal(offsetGlo)
-			let symbols = this.templateService.getReferencesAtPosition!(context, temOffset)
-
-			if (symbols) {
-				symbols.forEach(symbol => {
-					this.translateTextSpan(symbol.definition.textSpan, context!)
-				})
-			}
 
+			// References are already in global origin, no need to translate.
 			// Replace original references to template ones.
-			return symbols
+			return this.templateService.getReferencesAtPosition!(context, temOffset)
 		})
 	}
 
@@ -407,4 +580,331 @@ export class TSLanguageServiceProxy {
 			return info
 		})
 	}
-}
+
+	private wrapGetLinkedEditingRangeAtPosition() {
+		if (!this.templateService.getLinkedEditingRangeAtPosition) {
+			return
+		}
+
+		this.wrap('getLinkedEditingRangeAtPosition', (callOriginal, fileName: string, offsetGlo: number) => {
+			let template = this.templateProvider.getTemplateAt(fileName, offsetGlo)
+			if (!template) {
+				return callOriginal()
+			}
+
+			let temOffset = template.globalOffsetToLocal(offsetGlo)
+			let info = this.templateService.getLinkedEditingRangeAtPosition!(template, temOffset)
+
+			if (info) {
+				info.ranges.forEach(range => this.translateTextSpan(range, template!))
+			}
+
+			// Replace original linked editing ranges to template ones.
+			return info
+		})
+	}
+
+	private wrapGetSmartSelectionRange() {
+		if (!this.templateService.getSmartSelectionRange) {
+			return
+		}
+
+		this.wrap('getSmartSelectionRange', (callOriginal, fileName: string, offsetGlo: number) => {
+			let template = this.templateProvider.getTemplateAt(fileName, offsetGlo)
+			if (!template) {
+				return callOriginal()
+			}
+
+			let temOffset = template.globalOffsetToLocal(offsetGlo)
+			let range = this.templateService.getSmartSelectionRange!(template, temOffset)
+			let originalRange: TS.SelectionRange | undefined = callOriginal()
+
+			if (!range) {
+				return originalRange
+			}
+
+			// Original ranges which contain whole template are outer ranges.
+			let templateStart = template.node.getStart()
+			let templateEnd = template.node.end
+
+			while (originalRange
+				&& (originalRange.textSpan.start > templateStart
+					|| originalRange.textSpan.start + originalRange.textSpan.length < templateEnd)
+			) {
+				originalRange = originalRange.parent
+			}
+
+			let outermostRange = range
+
+			for (let r: TS.SelectionRange | undefined = range; r; r = r.parent) {
+				this.translateTextSpan(r.textSpan, template)
+				outermostRange = r
+			}
+
+			outermostRange.parent = originalRange
+
+			return range
+		})
+	}
+
+	private wrapGetNavigationTree() {
+		if (!this.templateService.getNavigationTree) {
+			return
+		}
+
+		this.wrap('getNavigationTree', (callOriginal, fileName: string) => {
+			let tree = callOriginal()
+
+			for (let template of this.templateProvider.getAllTemplates(fileName)) {
+				let items = this.getTemplateNavigationTree(template)
+				if (items.length === 0) {
+					continue
+				}
+
+				// Append to the innermost item which contains template, normally a `render` method.
+				let parent = this.findInnermostNavigationItem(tree, template)
+				parent.childItems = [...parent.childItems ?? [], ...items]
+			}
+
+			return tree
+		})
+	}
+
+	private wrapGetNavigationBarItems() {
+		if (!this.templateService.getNavigationTree) {
+			return
+		}
+
+		this.wrap('getNavigationBarItems', (callOriginal, fileName: string) => {
+			let items = callOriginal()
+
+			for (let template of this.templateProvider.getAllTemplates(fileName)) {
+				let treeItems = this.getTemplateNavigationTree(template)
+				if (treeItems.length === 0) {
+					continue
+				}
+
+				// Bar items are flatted, append to the innermost item which contains template.
+				let parent = items.findLast(item => {
+					return item.spans.some(span => span.start <= template.node.getStart() && span.start + span.length >= template.node.end)
+				})
+
+				let indent = parent ? parent.indent + 1 : 0
+				let barItems = treeItems.map(item => this.makeNavigationBarItem(item, indent))
+
+				if (parent) {
+					parent.childItems.push(...barItems)
+				}
+
+				// No parent to contain items without children, push them at top level.
+				else {
+					items.push(...barItems.filter(item => item.childItems.length === 0))
+				}
+
+				items.push(...this.flatNavigationBarItems(barItems))
+			}
+
+			return items
+		})
+	}
+
+	/** Get navigation items of a template, in global origin. */
+	private getTemplateNavigationTree(template: Template): TS.NavigationTree[] {
+		let items = this.templateService.getNavigationTree!(template)
+
+		let translate = (item: TS.NavigationTree) => {
+			item.spans.forEach(span => this.translateTextSpan(span, template))
+			this.translateTextSpan(item.nameSpan, template)
+			item.childItems?.forEach(translate)
+		}
+
+		items.forEach(translate)
+
+		return items
+	}
+
+	private findInnermostNavigationItem(tree: TS.NavigationTree, template: Template): TS.NavigationTree {
+		let start = template.node.getStart()
+		let end = template.node.end
+
+		let child = tree.childItems?.find(item => {
+			return item.spans.some(span => span.start <= start && span.start + span.length >= end)
+		})
+
+		return child ? this.findInnermostNavigationItem(child, template) : tree
+	}
+
+	private makeNavigationBarItem(item: TS.NavigationTree, indent: number): TS.NavigationBarItem {
+		return {
+			text: item.text,
+			kind: item.kind,
+			kindModifiers: item.kindModifiers,
+			spans: item.spans,
+			childItems: item.childItems?.map(child => this.makeNavigationBarItem(child, indent + 1)) ?? [],
+			indent,
+			bolded: false,
+			grayed: false,
+		}
+	}
+
+	/** Bar items which have children should also be listed in top level. */
+	private flatNavigationBarItems(items: TS.NavigationBarItem[]): TS.NavigationBarItem[] {
+		return items.filter(item => item.childItems.length > 0).flatMap(item => {
+			return [item, ...this.flatNavigationBarItems(item.childItems)]
+		})
+	}
+
+	private wrapGetNavigateToItems() {
+		if (!this.templateService.getNavigateToItems) {
+			return
+		}
+
+		this.wrap('getNavigateToItems', (callOriginal, searchValue: string, maxResultCount?: number, fileName?: string, excludeDtsFiles?: boolean) => {
+			let items = this.templateService.getNavigateToItems!(searchValue).filter(item => {
+				if (fileName && item.fileName !== fileName) {
+					return false
+				}
+
+				if (excludeDtsFiles && item.fileName.endsWith('.d.ts')) {
+					return false
+				}
+
+				return true
+			})
+
+			// Merge lupos items before original items.
+			items = [...items, ...callOriginal()]
+
+			if (maxResultCount !== undefined) {
+				items = items.slice(0, maxResultCount)
+			}
+
+			return items
+		})
+	}
+
+	private wrapGetRenameInfo() {
+		if (!this.templateService.getRenameInfo) {
+			return
+		}
+
+		this.wrap('getRenameInfo', (callOriginal, fileName: string, offsetGlo: number, preferences?: TS.UserPreferences | TS.RenameInfoOptions) => {
+			let template = this.templateProvider.getTemplateAt(fileName, offsetGlo)
+			if (!template) {
+				return callOriginal()
+			}
+
+			let temOffset = template.globalOffsetToLocal(offsetGlo)
+			let info = this.templateService.getRenameInfo!(template, temOffset, preferences ?? {})
+			if (!info) {
+				return callOriginal()
+			}
+
+			if (info.canRename) {
+				this.translateTextSpan(info.triggerSpan, template)
+			}
+
+			// Replace original rename info to template ones.
+			return info
+		})
+	}
+
+	private wrapFindRenameLocations() {
+		if (!this.templateService.findRenameLocations) {
+			return
+		}
+
+		this.wrap('findRenameLocations', (callOriginal, fileName: string, offsetGlo: number, _findInStrings: boolean, _findInComments: boolean, preferences?: TS.UserPreferences | boolean) => {
+			let template = this.templateProvider.getTemplateAt(fileName, offsetGlo)
+
+			if (!template) {
+				let locations = callOriginal()
+				if (!locations || !this.templateService.findTemplateRenameLocations) {
+					return locations
+				}
+
+				// Merge original locations with template ones.
+				return [
+					...locations,
+					...this.templateService.findTemplateRenameLocations(fileName, offsetGlo),
+				]
+			}
+
+			let temOffset = template.globalOffsetToLocal(offsetGlo)
+			let userPreferences = typeof preferences === 'object' ? preferences : {}
+
+			// Rename locations are already in global origin, no need to translate.
+			// Replace original rename locations to template ones.
+			return this.templateService.findRenameLocations!(template, temOffset, userPreferences)
+		})
+	}
+
+	private wrapGetEncodedSemanticClassifications() {
+		if (!this.templateService.getEncodedSemanticClassifications) {
+			return
+		}
+
+		this.wrap('getEncodedSemanticClassifications', (callOriginal, fileName: string, span: TS.TextSpan, format?: TS.SemanticClassificationFormat) => {
+			let classifications = callOriginal()
+
+			// Template classifications are encoded in 2020 format.
+			if (format !== ts.SemanticClassificationFormat.TwentyTwenty) {
+				return classifications
+			}
+
+			let triples: number[][] = []
+
+			for (let i = 0; i < classifications.spans.length; i += 3) {
+				triples.push(classifications.spans.slice(i, i + 3))
+			}
+
+			for (let template of this.templateProvider.getAllTemplates(fileName)) {
+				if (!template.intersectWith(span.start, span.start + span.length)) {
+					continue
+				}
+
+				let spans = this.templateService.getEncodedSemanticClassifications!(template)
+
+				for (let i = 0; i < spans.length; i += 3) {
+					let start = template.localOffsetToGlobal(spans[i])
+					triples.push([start, spans[i + 1], spans[i + 2]])
+				}
+			}
+
+			// Merge original classifications with template ones, and keep them in order.
+			triples.sort((a, b) => a[0] - b[0])
+
+			return {
+				spans: triples.flat(),
+				endOfLineState: classifications.endOfLineState,
+			}
+		})
+	}
+
+	private wrapProvideInlayHints() {
+		if (!this.templateService.provideInlayHints) {
+			return
+		}
+
+		this.wrap('provideInlayHints', (callOriginal, fileName: string, span: TS.TextSpan) => {
+			let hints = [...callOriginal()]
+			let end = span.start + span.length
+
+			for (let template of this.templateProvider.getAllTemplates(fileName)) {
+				if (!template.intersectWith(span.start, end)) {
+					continue
+				}
+
+				let templateHints = this.templateService.provideInlayHints!(template)
+					.filter(hint => hint.position >= span.start && hint.position <= end)
+
+				hints.push(...templateHints)
+			}
+
+			// Merge original inlay hints with template ones, and keep them in order.
+			hints.sort((a, b) => a.position - b.position)
+
+			return hints
+		})
+	}
+}
\ No newline at end of file
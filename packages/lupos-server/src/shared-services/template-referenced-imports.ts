@@ -0,0 +1,251 @@
+import type * as TS from 'typescript'
+import {TemplateProvider, TemplateLanguageService} from '../template-service'
+import {ProjectContext, ts} from '../core'
+
+
+/** `'X' is declared but its value is never read.` */
+const DeclaredButNeverReadCode = 6133
+
+/** `All imports in import declaration are unused.` */
+const AllImportsUnusedCode = 6192
+
+/** Code fix ids of typescript which remove unused identifiers. */
+const UnusedIdentifierFixIds = ['unusedIdentifier_delete', 'unusedIdentifier_deleteImports']
+
+
+/**
+ * Imports like `<Com>` and `:binding` may be referenced by templates only,
+ * typescript doesn't know it and treat them as unused.
+ * This class helps to protect them from unused diagnostics, organizing imports and code fixes.
+ */
+export class TemplateReferencedImports {
+
+	readonly context: ProjectContext
+	readonly templateProvider: TemplateProvider
+	readonly templateService: TemplateLanguageService
+
+	constructor(context: ProjectContext, templateProvider: TemplateProvider, templateService: TemplateLanguageService) {
+		this.context = context
+		this.templateProvider = templateProvider
+		this.templateService = templateService
+	}
+
+	/** Get names which are referenced by all the templates of a file. */
+	private getReferencedNames(fileName: string): Set<string> {
+		let names: Set<string> = new Set()
+
+		if (!this.templateService.getReferencedNames) {
+			return names
+		}
+
+		for (let template of this.templateProvider.getAllTemplates(fileName)) {
+			for (let name of this.templateService.getReferencedNames(template)) {
+				names.add(name)
+			}
+		}
+
+		return names
+	}
+
+	/** Get imported name identifiers which are referenced by templates. */
+	private getReferencedImportIdentifiers(sourceFile: TS.SourceFile, names: Set<string>): TS.Identifier[] {
+		return this.getImportIdentifiers(sourceFile).filter(identifier => names.has(identifier.text))
+	}
+
+	/** Get all imported name identifiers, not include namespace imports. */
+	private getImportIdentifiers(sourceFile: TS.SourceFile): TS.Identifier[] {
+		let identifiers: TS.Identifier[] = []
+
+		for (let statement of sourceFile.statements) {
+			if (!ts.isImportDeclaration(statement) || !statement.importClause) {
+				continue
+			}
+
+			let clause = statement.importClause
+
+			// `import A from '...'`
+			if (clause.name) {
+				identifiers.push(clause.name)
+			}
+
+			// `import {A} from '...'`
+			if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+				for (let element of clause.namedBindings.elements) {
+					identifiers.push(element.name)
+				}
+			}
+		}
+
+		return identifiers
+	}
+
+	/** Remove unused diagnostics of identifiers which are referenced by templates. */
+	filterDiagnostics<D extends TS.Diagnostic>(fileName: string, diagnostics: D[]): D[] {
+		let sourceFile = this.context.program.getSourceFile(fileName)
+		if (!sourceFile || !diagnostics.some(diag => this.isUnusedDiagnostic(diag))) {
+			return diagnostics
+		}
+
+		let names = this.getReferencedNames(fileName)
+		if (names.size === 0) {
+			return diagnostics
+		}
+
+		let identifiers = this.getReferencedImportIdentifiers(sourceFile, names)
+
+		return diagnostics.filter(diag => {
+			if (!this.isUnusedDiagnostic(diag)) {
+				return true
+			}
+
+			let start = diag.start!
+			let end = start + diag.length!
+
+			// `'A' is declared but...`, also for local declarations.
+			if (diag.code === DeclaredButNeverReadCode && names.has(sourceFile.text.slice(start, end))) {
+				return false
+			}
+
+			// `import {A, B}`, either is referenced.
+			// Also `import {A}`, which is reported over the whole import declaration.
+			return !identifiers.some(identifier => identifier.getStart() >= start && identifier.end <= end)
+		})
+	}
+
+	private isUnusedDiagnostic(diag: TS.Diagnostic): boolean {
+		return (diag.code === DeclaredButNeverReadCode || diag.code === AllImportsUnusedCode)
+			&& diag.start !== undefined
+			&& diag.length !== undefined
+	}
+
+	/**
+	 * If organizing imports removes referenced imports,
+	 * returns the changes of organizing imports without removing unused.
+	 */
+	protectOrganizeImports(
+		changes: readonly TS.FileTextChanges[],
+		args: TS.OrganizeImportsArgs,
+		formatOptions: TS.FormatCodeSettings,
+		preferences: TS.UserPreferences | undefined
+	): readonly TS.FileTextChanges[] {
+
+		// Never remove imports.
+		if (args.mode === ts.OrganizeImportsMode.SortAndCombine) {
+			return changes
+		}
+
+		let fileName = args.fileName
+		let sourceFile = this.context.program.getSourceFile(fileName)
+		if (!sourceFile) {
+			return changes
+		}
+
+		let identifiers = this.getReferencedImportIdentifiers(sourceFile, this.getReferencedNames(fileName))
+		if (identifiers.length === 0) {
+			return changes
+		}
+
+		let fileChanges = changes.find(change => change.fileName === fileName)
+		if (!fileChanges) {
+			return changes
+		}
+
+		// Parse changed text to get which imports are kept.
+		let newText = this.applyTextChanges(sourceFile.text, fileChanges.textChanges)
+		let newSourceFile = ts.createSourceFile(fileName, newText, ts.ScriptTarget.Latest)
+		let keptNames = new Set(this.getImportIdentifiers(newSourceFile).map(identifier => identifier.text))
+
+		if (identifiers.every(identifier => keptNames.has(identifier.text))) {
+			return changes
+		}
+
+		return this.context.service.organizeImports(
+			{...args, mode: ts.OrganizeImportsMode.SortAndCombine},
+			formatOptions,
+			preferences
+		)
+	}
+
+	private applyTextChanges(text: string, textChanges: readonly TS.TextChange[]): string {
+		let sortedChanges = [...textChanges].sort((a, b) => b.span.start - a.span.start)
+
+		for (let change of sortedChanges) {
+			text = text.slice(0, change.span.start) + change.newText + text.slice(change.span.start + change.span.length)
+		}
+
+		return text
+	}
+
+	/** Remove code fixes which would remove referenced imports. */
+	filterCodeFixes(fileName: string, actions: readonly TS.CodeFixAction[]): readonly TS.CodeFixAction[] {
+		if (!actions.some(action => action.fixId && UnusedIdentifierFixIds.includes(String(action.fixId)))) {
+			return actions
+		}
+
+		let identifiers = this.getReferencedImportIdentifiersOfFile(fileName)
+		if (identifiers.length === 0) {
+			return actions
+		}
+
+		return actions.filter(action => {
+			if (!action.fixId || !UnusedIdentifierFixIds.includes(String(action.fixId))) {
+				return true
+			}
+
+			return !this.isAnyIdentifierChanged(action.changes, fileName, identifiers)
+		})
+	}
+
+	/** Remove text changes of combined code fix which would remove referenced imports. */
+	filterCombinedCodeFix(scope: TS.CombinedCodeFixScope, fixId: {}, codeActions: TS.CombinedCodeActions): TS.CombinedCodeActions {
+		if (!UnusedIdentifierFixIds.includes(String(fixId))) {
+			return codeActions
+		}
+
+		let fileName = scope.fileName
+		let identifiers = this.getReferencedImportIdentifiersOfFile(fileName)
+		if (identifiers.length === 0) {
+			return codeActions
+		}
+
+		let changes = codeActions.changes.map(fileChanges => {
+			if (fileChanges.fileName !== fileName) {
+				return fileChanges
+			}
+
+			return {
+				...fileChanges,
+				textChanges: fileChanges.textChanges.filter(change => {
+					return !identifiers.some(identifier => this.isIntersected(change.span, identifier))
+				}),
+			}
+		})
+
+		return {
+			...codeActions,
+			changes,
+		}
+	}
+
+	private getReferencedImportIdentifiersOfFile(fileName: string): TS.Identifier[] {
+		let sourceFile = this.context.program.getSourceFile(fileName)
+		if (!sourceFile) {
+			return []
+		}
+
+		return this.getReferencedImportIdentifiers(sourceFile, this.getReferencedNames(fileName))
+	}
+
+	private isAnyIdentifierChanged(changes: readonly TS.FileTextChanges[], fileName: string, identifiers: TS.Identifier[]): boolean {
+		return changes.some(fileChanges => {
+			return fileChanges.fileName === fileName
+				&& fileChanges.textChanges.some(change => {
+					return identifiers.some(identifier => this.isIntersected(change.span, identifier))
+				})
+		})
+	}
+
+	private isIntersected(span: TS.TextSpan, node: TS.Node): boolean {
+		return span.start < node.end && span.start + span.length > node.getStart()
+	}
+}
@@ -7,7 +7,12 @@ import {TemplateLanguageService} from './types'
 import {Template} from './template'
 import {TemplateEmbeddedRegion} from './embedded-region'
 import {SharedCSSService, SharedHTMLService} from '../shared-services'
-import {DiagnosticModifier, TemplatePartType} from '../lupos-ts-module'
+import {DiagnosticModifier, HTMLNodeType, TemplatePartType} from '../lupos-ts-module'
+import {TemplateProvider} from './template-provider'
+import {TemplateFormatter} from './template-formatter'
+import {TemplateSyntaxDiagnostics} from './template-syntax-diagnostics'
+import {TemplateSelectionRanges} from './template-selection-ranges'
+import {TemplateNavigation} from './template-navigation'
 
 
 /**
@@ -21,10 +26,10 @@ export class TemplateServiceRouter implements TemplateLanguageService {
 
 	private luposService: LuposService
 
-	constructor(context: ProjectContext) {
+	constructor(context: ProjectContext, templateProvider: TemplateProvider) {
 		this.context = context
 		this.tsService = context.service
-		this.luposService = new LuposService(context)
+		this.luposService = new LuposService(context, templateProvider)
 
 		Logger.log('Lupos Plugin Started')
 	}
@@ -148,6 +153,27 @@ export class TemplateServiceRouter implements TemplateLanguageService {
 		return ranges.map(range => VS2TSTranslator.translateOutliningSpanToTS(range, region))
 	}
 
+	getFormattingEditsForRange(template: Template, start: number, end: number, settings: TS.EditorSettings): TS.TextChange[] {
+		let changes = TemplateFormatter.format(template, settings)
+
+		// Only keep changes intersect with range.
+		return changes.filter(change => {
+			return change.span.start <= end
+				&& change.span.start + change.span.length >= start
+		})
+	}
+
+	/** Returned diagnostics are located in template local origin. */
+	getSyntacticDiagnostics(template: Template): TS.DiagnosticWithLocation[] {
+		let region = template.embedded.getWholeTemplateRegion()
+
+		if (region.languageId === 'html') {
+			return TemplateSyntaxDiagnostics.diagnose(template)
+		}
+
+		return []
+	}
+
 	/** Note diagnostics are located in global origin. */
 	modifySemanticDiagnostics(template: Template, modifier: DiagnosticModifier) {
 		let wholeRegion = template.embedded.getWholeTemplateRegion()
@@ -174,6 +200,29 @@ export class TemplateServiceRouter implements TemplateLanguageService {
 		}
 	}
 
+	/** Note diagnostics are located in global origin. */
+	filterSemanticDiagnostics<D extends TS.Diagnostic>(template: Template, diagnostics: D[]): D[] {
+		if (template.tagName === 'css') {
+			return diagnostics
+		}
+
+		return this.luposService.filterSlotDiagnostics(template, diagnostics)
+	}
+
+	/** Note quick info is located in global origin. */
+	getSlotParameterQuickInfo(template: Template, parameter: TS.ParameterDeclaration, textSpan: TS.TextSpan): TS.QuickInfo | undefined {
+		if (template.tagName === 'css') {
+			return undefined
+		}
+
+		return this.luposService.getSlotParameterQuickInfo(template, parameter, textSpan)
+	}
+
+	/** Note diagnostics are located in global origin. */
+	modifySourceFileSemanticDiagnostics(sourceFile: TS.SourceFile, modifier: DiagnosticModifier) {
+		this.luposService.modifySourceFileDiagnostics(sourceFile, modifier)
+	}
+
 	private filterCSSDiagnostics(tsDiags: TS.Diagnostic[], vsDiags: vscode.Diagnostic[], template: Template) {
 		return tsDiags.filter((tsDiag: TS.Diagnostic, index: number) => {
 			let vsDiag = vsDiags[index]
@@ -212,6 +261,24 @@ export class TemplateServiceRouter implements TemplateLanguageService {
 		})
 	}
 
+	getSupportedCodeFixes(): number[] {
+		return this.luposService.getSupportedCodeFixes()
+	}
+
+	/** Note code fixes are located in global origin. */
+	getSourceFileCodeFixesAtPosition(sourceFile: TS.SourceFile, start: number, end: number, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] {
+		return this.luposService.getSourceFileCodeFixes(sourceFile, start, end, errorCodes)
+	}
+
+	/** Note code fixes are located in global origin. */
+	getSlotCodeFixesAtPosition(template: Template, start: number, end: number, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] {
+		if (template.tagName === 'css') {
+			return []
+		}
+
+		return this.luposService.getSlotCodeFixes(template, start, end, errorCodes)
+	}
+
 	/** Note code fixes are located in global origin. */
 	getCodeFixesAtPosition(template: Template, start: number, end: number, errorCodes: ReadonlyArray<number>): TS.CodeFixAction[] {
 		let region = template.embedded.getWholeTemplateRegion()
@@ -248,12 +315,18 @@ export class TemplateServiceRouter implements TemplateLanguageService {
 		return []
 	}
 
+	/** Note references are located in global origin. */
 	getReferencesAtPosition(template: Template, temOffset: number): TS.ReferencedSymbol[] | undefined {
 		let region = template.embedded.getRegionAt(temOffset)
 		let regPosition = region.localOffsetToPosition(region.templateOffsetToLocal(temOffset))
 		let highlights: vscode.DocumentHighlight[] | undefined
 
 		if (region.languageId === 'html') {
+			let luposReferences = this.luposService.findReferences(template, temOffset)
+			if (luposReferences) {
+				return luposReferences
+			}
+
 			let htmlDocument = region.htmlDocument!
 			highlights = SharedHTMLService.findDocumentHighlights(region.document, regPosition, htmlDocument)
 		}
@@ -263,12 +336,142 @@ export class TemplateServiceRouter implements TemplateLanguageService {
 		}
 
 		if (highlights) {
-			return VS2TSTranslator.translateVSHighlightsToReferenceSymbol(highlights, template.fileName, regPosition, region)
+			return VS2TSTranslator.translateVSHighlightsToReferenceSymbol(highlights, regPosition, region, template)
+		}
+
+		return undefined
+	}
+
+	/** Note references are located in global origin. */
+	mergeTemplateReferences(fileName: string, offset: number, symbols: TS.ReferencedSymbol[]): TS.ReferencedSymbol[] {
+		return this.luposService.mergeTemplateReferences(fileName, offset, symbols)
+	}
+
+	getReferencedNames(template: Template): string[] {
+		let region = template.embedded.getWholeTemplateRegion()
+
+		if (region.languageId === 'html') {
+			return this.luposService.getReferencedNames(template)
+		}
+
+		return []
+	}
+
+	getRenameInfo(template: Template, temOffset: number, preferences: TS.UserPreferences): TS.RenameInfo | undefined {
+		let region = template.embedded.getRegionAt(temOffset)
+
+		if (region.languageId === 'html') {
+			return this.luposService.getRenameInfo(template, temOffset, preferences)
 		}
 
 		return undefined
 	}
 
+	/** Note rename locations are located in global origin. */
+	findRenameLocations(template: Template, temOffset: number, preferences: TS.UserPreferences): TS.RenameLocation[] | undefined {
+		let region = template.embedded.getRegionAt(temOffset)
+
+		if (region.languageId === 'html') {
+			return this.luposService.findRenameLocations(template, temOffset, preferences)
+		}
+
+		return undefined
+	}
+
+	/** Note rename locations are located in global origin. */
+	findTemplateRenameLocations(fileName: string, offset: number): TS.RenameLocation[] {
+		return this.luposService.findTemplateRenameLocations(fileName, offset)
+	}
+
+	/** Returns triples of `start, length, classification`, start is template local. */
+	getEncodedSemanticClassifications(template: Template): number[] {
+		let region = template.embedded.getWholeTemplateRegion()
+
+		if (region.languageId === 'html') {
+			return this.luposService.getSemanticClassifications(template)
+		}
+
+		return []
+	}
+
+	/** Returned applicable span is template local. */
+	getSignatureHelpItemsAtPosition(template: Template, temOffset: number): TS.SignatureHelpItems | undefined {
+		let region = template.embedded.getRegionAt(temOffset)
+
+		if (region.languageId === 'html') {
+			return this.luposService.getSignatureHelp(template, temOffset)
+		}
+
+		return undefined
+	}
+
+	/** Note inlay hints are located in global origin. */
+	provideInlayHints(template: Template): TS.InlayHint[] {
+		let region = template.embedded.getWholeTemplateRegion()
+
+		if (region.languageId === 'html') {
+			return this.luposService.getInlayHints(template)
+		}
+
+		return []
+	}
+
+	/** Get paired tag name ranges of start and end tags, ranges are template local. */
+	getLinkedEditingRangeAtPosition(template: Template, temOffset: number): TS.LinkedEditingInfo | undefined {
+		let region = template.embedded.getRegionAt(temOffset)
+		if (region.languageId !== 'html') {
+			return undefined
+		}
+
+		let ranges: TS.TextSpan[] | undefined
+
+		template.root.visit(node => {
+			if (ranges || node.type !== HTMLNodeType.Tag || !node.tagName) {
+				return
+			}
+
+			// `<${Com}>...</${Com}>` are different slots.
+			if (node.tagName.includes('$LUPOS_SLOT_INDEX_')) {
+				return
+			}
+
+			let spans = template.getTagNameRanges(node)
+
+			// Only have start tag.
+			if (spans.length < 2) {
+				return
+			}
+
+			if (spans.some(span => span.start <= temOffset && span.start + span.length >= temOffset)) {
+				ranges = spans
+			}
+		})
+
+		if (!ranges) {
+			return undefined
+		}
+
+		return {
+			ranges,
+			wordPattern: '[a-zA-Z][\\w:.-]*',
+		}
+	}
+
+	/** Returned selection ranges are template local. */
+	getSmartSelectionRange(template: Template, temOffset: number): TS.SelectionRange | undefined {
+		return TemplateSelectionRanges.getSelectionRange(template, temOffset)
+	}
+
+	/** Returned navigation items are template local. */
+	getNavigationTree(template: Template): TS.NavigationTree[] {
+		return TemplateNavigation.getNavigationTree(template)
+	}
+
+	/** Note navigate to items are located in global origin. */
+	getNavigateToItems(searchValue: string): TS.NavigateToItem[] {
+		return this.luposService.getNavigateToItems(searchValue)
+	}
+
 	getJsxClosingTagAtPosition(template: Template, temOffset: number): TS.JsxClosingTagInfo | undefined {
 		let region = template.embedded.getRegionAt(temOffset)
 		let regPosition = region.localOffsetToPosition(region.templateOffsetToLocal(temOffset))
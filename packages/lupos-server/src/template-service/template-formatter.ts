@@ -0,0 +1,181 @@
+import type * as TS from 'typescript'
+import {TextDocument} from 'vscode-languageserver-textdocument'
+import {SharedCSSService, SharedHTMLService} from '../shared-services/shared-html-css-services'
+import {Template} from './template'
+
+
+/** Elements whose content whitespaces will be rendered, they are kept unformatted. */
+const WhitespaceSensitiveTagNames = ['pre', 'textarea']
+
+
+/**
+ * Format html`...` and css`...` templates.
+ * Formatting changes whitespaces only, so slots `${...}` are always kept
+ * and can be mapped to global by template slot mapper.
+ */
+export namespace TemplateFormatter {
+
+	/** Returns text changes in template local origin. */
+	export function format(template: Template, settings: TS.EditorSettings): TS.TextChange[] {
+		let region = template.embedded.getWholeTemplateRegion()
+		let originalText = region.document.getText()
+
+		// Only format multiple lines template.
+		if (!originalText.includes('\n')) {
+			return []
+		}
+
+		let formatted = region.languageId === 'html'
+			? formatHTML(region.document, settings)
+			: formatCSS(region.document, settings)
+
+		let indented = indentLines(formatted, originalText, template, settings)
+
+		// Formatter changed not only whitespaces, give up.
+		let changes = diffWhitespaces(originalText, indented)
+		if (!changes) {
+			return []
+		}
+
+		// Keep content of `<pre>` and `<textarea>`.
+		if (region.languageId === 'html') {
+			let ranges = getWhitespaceSensitiveRanges(originalText)
+
+			changes = changes.filter(change => {
+				return !ranges.some(range => change.span.start >= range.start && change.span.start <= range.end)
+			})
+		}
+
+		return changes
+	}
+
+	function formatHTML(document: TextDocument, settings: TS.EditorSettings): string {
+		let edits = SharedHTMLService.format(document, undefined, {
+			tabSize: settings.indentSize ?? settings.tabSize ?? 4,
+			insertSpaces: !!settings.convertTabsToSpaces,
+			preserveNewLines: true,
+			endWithNewline: false,
+			contentUnformatted: WhitespaceSensitiveTagNames.join(','),
+		})
+
+		return TextDocument.applyEdits(document, edits)
+	}
+
+	function formatCSS(document: TextDocument, settings: TS.EditorSettings): string {
+		let text = document.getText()
+
+		// Independent slot `${...}` would be joined with following selector,
+		// make it a comment to keep it in it's own line.
+		let replaced = text.replace(/^([ \t]*)_(LUPOS_SLOT_INDEX_\d+)_([ \t]*)$/gm, '$1/*$2*/$3')
+		let replacedDocument = TextDocument.create(document.uri, document.languageId, document.version, replaced)
+
+		let edits = SharedCSSService.format(replacedDocument, undefined, {
+			tabSize: settings.indentSize ?? settings.tabSize ?? 4,
+			insertSpaces: !!settings.convertTabsToSpaces,
+			preserveNewLines: true,
+		})
+
+		return TextDocument.applyEdits(replacedDocument, edits)
+			.replace(/\/\*(LUPOS_SLOT_INDEX_\d+)\*\//g, '_$1_')
+	}
+
+	/** 
+	 * Indent each line to be one level deeper than the line where template starts.
+	 * Leading and trailing new lines are kept only when original text has them.
+	 */
+	function indentLines(text: string, originalText: string, template: Template, settings: TS.EditorSettings): string {
+		let indentUnit = settings.convertTabsToSpaces ? ' '.repeat(settings.indentSize ?? settings.tabSize ?? 4) : '\t'
+		let baseIndent = getBaseIndent(template)
+		let startsWithNewLine = /^\s*\n/.test(originalText)
+		let endsWithNewLine = /\n\s*$/.test(originalText)
+
+		let lines = text.trim().split(/\r?\n/).map((line, index) => {
+			if (!line.trim()) {
+				return ''
+			}
+
+			// `html`<div>...`, first line follows template start.
+			if (index === 0 && !startsWithNewLine) {
+				return line
+			}
+
+			return baseIndent + indentUnit + line
+		})
+
+		return (startsWithNewLine ? '\n' : '')
+			+ lines.join('\n')
+			+ (endsWithNewLine ? '\n' + baseIndent : '')
+	}
+
+	/** Get content ranges of `<pre>` and `<textarea>`. */
+	function getWhitespaceSensitiveRanges(text: string): {start: number, end: number}[] {
+		let re = new RegExp(`<(${WhitespaceSensitiveTagNames.join('|')})\\b[^>]*>([\\s\\S]*?)<\\/\\1\\s*>`, 'gi')
+		let ranges: {start: number, end: number}[] = []
+
+		for (let match of text.matchAll(re)) {
+			let start = match.index! + match[0].indexOf('>') + 1
+			ranges.push({start, end: start + match[2].length})
+		}
+
+		return ranges
+	}
+
+	/** Get indentation of the line where template starts. */
+	function getBaseIndent(template: Template): string {
+		let sourceText = template.sourceFile.text
+		let templateStart = template.node.getStart()
+		let lineStart = sourceText.lastIndexOf('\n', templateStart - 1) + 1
+
+		return sourceText.slice(lineStart).match(/^[ \t]*/)![0]
+	}
+
+	/**
+	 * Compare two texts which are different only at whitespaces,
+	 * returns changes to make old text become new text.
+	 * Returns `null` if non-whitespace characters are different.
+	 */
+	function diffWhitespaces(oldText: string, newText: string): TS.TextChange[] | null {
+		let changes: TS.TextChange[] = []
+		let i = 0
+		let j = 0
+
+		while (i < oldText.length || j < newText.length) {
+			let oldStart = i
+			let newStart = j
+
+			while (i < oldText.length && /\s/.test(oldText[i])) {
+				i++
+			}
+
+			while (j < newText.length && /\s/.test(newText[j])) {
+				j++
+			}
+
+			let oldWhitespaces = oldText.slice(oldStart, i)
+			let newWhitespaces = newText.slice(newStart, j)
+
+			if (oldWhitespaces !== newWhitespaces) {
+				changes.push({
+					span: {
+						start: oldStart,
+						length: i - oldStart,
+					},
+					newText: newWhitespaces,
+				})
+			}
+
+			if (i === oldText.length && j === newText.length) {
+				break
+			}
+
+			if (oldText[i] !== newText[j]) {
+				return null
+			}
+
+			i++
+			j++
+		}
+
+		return changes
+	}
+}
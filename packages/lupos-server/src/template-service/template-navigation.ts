@@ -0,0 +1,130 @@
+import type * as TS from 'typescript'
+import * as vscode from 'vscode-languageserver-types'
+import {SharedCSSService} from '../shared-services/shared-html-css-services'
+import {HTMLNode, HTMLNodeType, TemplateSlotPlaceholder} from '../lupos-ts-module'
+import {ts} from '../core'
+import {Template} from './template'
+import {TemplateEmbeddedRegion} from './embedded-region'
+
+
+/**
+ * Make navigation tree items of templates, to be shown in outline and breadcrumbs.
+ * For html`...`: element tree, for css`...`: selectors.
+ */
+export namespace TemplateNavigation {
+
+	/** Returned spans are located in template local origin. */
+	export function getNavigationTree(template: Template): TS.NavigationTree[] {
+		let region = template.embedded.getWholeTemplateRegion()
+
+		if (region.languageId === 'css') {
+			let symbols = SharedCSSService.findDocumentSymbols2(region.document, region.stylesheet!)
+			return symbols.map(symbol => makeCSSItem(symbol, region, template))
+		}
+
+		return getChildTagNodes(template.root).map(node => makeHTMLItem(node, template))
+	}
+
+	/** Get child tag nodes, text and comment nodes are ignored. */
+	function getChildTagNodes(node: HTMLNode): HTMLNode[] {
+		return node.children.filter(child => child.type === HTMLNodeType.Tag)
+	}
+
+	function makeHTMLItem(node: HTMLNode, template: Template): TS.NavigationTree {
+		let tagName = node.tagName!
+		let childItems = getChildTagNodes(node).map(child => makeHTMLItem(child, template))
+
+		let kind = TemplateSlotPlaceholder.isComponent(tagName) ? ts.ScriptElementKind.classElement
+			: tagName.startsWith('lu:') ? ts.ScriptElementKind.keyword
+			: ts.ScriptElementKind.memberVariableElement
+
+		let item: TS.NavigationTree = {
+			text: getHTMLNodeLabel(node, template),
+			kind,
+			kindModifiers: '',
+			spans: [{
+				start: node.start,
+				length: node.end - node.start,
+			}],
+			nameSpan: template.getTagNameRanges(node)[0],
+		}
+
+		if (childItems.length > 0) {
+			item.childItems = childItems
+		}
+
+		return item
+	}
+
+	/**
+	 * Get label of a html node.
+	 * `<Com>` for component, `<lu:if ${...}>` for control flow tags,
+	 * `div#id.class :ref="name"` for normal elements.
+	 */
+	function getHTMLNodeLabel(node: HTMLNode, template: Template): string {
+		let tagName = restoreSlots(node.tagName!, template)
+
+		if (TemplateSlotPlaceholder.isComponent(node.tagName!)) {
+			return `<${tagName}>`
+		}
+
+		// `<lu:if ${...}>`, `<lu:for ${...}>`.
+		if (tagName.startsWith('lu:')) {
+			let attrs = node.attrs!.map(attr => restoreSlots(attr.name, template))
+			return `<${[tagName, ...attrs].join(' ')}>`
+		}
+
+		let label = tagName
+		let id = node.attrs!.find(attr => attr.name === 'id')?.value
+		let className = node.attrs!.find(attr => attr.name === 'class')?.value
+		let ref = node.attrs!.find(attr => attr.name === ':ref')?.value
+
+		if (id) {
+			label += '#' + restoreSlots(id, template)
+		}
+
+		if (className) {
+			label += className.trim().split(/\s+/).map(name => '.' + restoreSlots(name, template)).join('')
+		}
+
+		if (ref) {
+			label += ` :ref="${restoreSlots(ref, template)}"`
+		}
+
+		return label
+	}
+
+	/** Replace slot placeholders `$LUPOS_SLOT_INDEX_n$` or `_LUPOS_SLOT_INDEX_n_` to original `${...}`. */
+	function restoreSlots(text: string, template: Template): string {
+		return text.replace(/[$_]LUPOS_SLOT_INDEX_(\d+)[$_]/g, (_m0: string, index: string) => {
+			return '${' + template.valueNodes[Number(index)].getText() + '}'
+		})
+	}
+
+	function makeCSSItem(symbol: vscode.DocumentSymbol, region: TemplateEmbeddedRegion, template: Template): TS.NavigationTree {
+		let start = region.localOffsetToTemplate(region.localPositionToOffset(symbol.range.start))
+		let end = region.localOffsetToTemplate(region.localPositionToOffset(symbol.range.end))
+		let nameStart = region.localOffsetToTemplate(region.localPositionToOffset(symbol.selectionRange.start))
+		let nameEnd = region.localOffsetToTemplate(region.localPositionToOffset(symbol.selectionRange.end))
+
+		let item: TS.NavigationTree = {
+			text: restoreSlots(symbol.name, template),
+			kind: ts.ScriptElementKind.classElement,
+			kindModifiers: '',
+			spans: [{
+				start,
+				length: end - start,
+			}],
+			nameSpan: {
+				start: nameStart,
+				length: nameEnd - nameStart,
+			},
+		}
+
+		if (symbol.children && symbol.children.length > 0) {
+			item.childItems = symbol.children.map(child => makeCSSItem(child, region, template))
+		}
+
+		return item
+	}
+}
@@ -30,6 +30,44 @@ export class TemplateProvider {
 			return null
 		}
 
+		return this.getTemplateByTaggedNode(sourceFile, taggedNode)
+	}
+
+	/** 
+	 * Get a Template and value index of slot `${...}` at specified offset position of source file.
+	 * Offset must locate at slot expression, not template literal part.
+	 */
+	getTemplateBySlotAt(fileName: string, offset: number): {template: Template, valueIndex: number} | null {
+		let sourceFile = this.context.program.getSourceFile(fileName)
+		let currentNode = sourceFile ? this.context.helper.getNodeAtOffset(sourceFile, offset) : undefined
+		if (!sourceFile || !currentNode) {
+			return null
+		}
+
+		let span = this.context.helper.findOutward(currentNode, ts.isTemplateSpan)
+
+		// Skip slots of not allowed templates like `${`${...}`}`.
+		while (span) {
+			let taggedNode = span.parent.parent
+
+			if (ts.isTaggedTemplateExpression(taggedNode)
+				&& PluginConfig.tags.includes(taggedNode.tag.getText())
+				&& span.expression.pos <= offset
+				&& span.literal.getStart() >= offset
+			) {
+				let template = this.getTemplateByTaggedNode(sourceFile, taggedNode)
+				let valueIndex = span.parent.templateSpans.indexOf(span)
+
+				return {template, valueIndex}
+			}
+
+			span = this.context.helper.findOutward(span.parent, ts.isTemplateSpan)
+		}
+
+		return null
+	}
+
+	private getTemplateByTaggedNode(sourceFile: TS.SourceFile, taggedNode: TS.TaggedTemplateExpression): Template {
 		let template = this.templateCache.get(sourceFile, taggedNode)
 		if (!template) {
 			template = this.createTemplate(taggedNode)
@@ -0,0 +1,179 @@
+import type * as TS from 'typescript'
+import * as vscode from 'vscode-languageserver-types'
+import {Node as VSHTMLNode} from 'vscode-html-languageservice'
+import {SharedCSSService} from '../shared-services/shared-html-css-services'
+import {getTemplatePartPieceAt} from '../lupos-ts-module'
+import {Template} from './template'
+import {TemplateEmbeddedRegion} from './embedded-region'
+
+
+/**
+ * Get smart selection ranges of templates, which grow step by step.
+ * For html`...`: part piece, attribute value, whole attribute, start tag, element content, element...
+ * For css`...`: declaration, rule, block...
+ */
+export namespace TemplateSelectionRanges {
+
+	/** Returned ranges are located in template local origin. */
+	export function getSelectionRange(template: Template, temOffset: number): TS.SelectionRange | undefined {
+		let region = template.embedded.getRegionAt(temOffset)
+		let spans: TS.TextSpan[] = []
+
+		if (region.languageId === 'css') {
+			spans.push(...getCSSSpans(region, temOffset))
+		}
+
+		// Inline style `style="..."` also grows to html structure.
+		if (template.tagName !== 'css') {
+			spans.push(...getPartSpans(template, temOffset))
+			spans.push(...getHTMLNodeSpans(template, temOffset))
+		}
+
+		// Whole template.
+		spans.push({
+			start: 0,
+			length: template.content.length,
+		})
+
+		return makeSelectionRange(spans, temOffset)
+	}
+
+	/** Get spans of css declaration, rule and block. */
+	function getCSSSpans(region: TemplateEmbeddedRegion, temOffset: number): TS.TextSpan[] {
+		let position = region.localOffsetToPosition(region.templateOffsetToLocal(temOffset))
+		let range: vscode.SelectionRange | undefined = SharedCSSService.getSelectionRanges(region.document, [position], region.stylesheet!)[0]
+		let spans: TS.TextSpan[] = []
+
+		while (range) {
+			let start = region.localOffsetToTemplate(region.localPositionToOffset(range.range.start))
+			let end = region.localOffsetToTemplate(region.localPositionToOffset(range.range.end))
+
+			spans.push({
+				start,
+				length: end - start,
+			})
+
+			range = range.parent
+		}
+
+		return spans
+	}
+
+	/** Get spans of part piece, attribute value and whole attribute. */
+	function getPartSpans(template: Template, temOffset: number): TS.TextSpan[] {
+		let part = template.getPartAt(temOffset)
+		if (!part) {
+			return []
+		}
+
+		let spans: TS.TextSpan[] = []
+		let piece = getTemplatePartPieceAt(part, temOffset)
+
+		if (piece) {
+			spans.push({
+				start: piece.start,
+				length: piece.end - piece.start,
+			})
+		}
+
+		let attr = part.attr
+		if (attr && attr.valueStart < attr.valueEnd) {
+
+			// `"|...|"`
+			if (attr.quoted) {
+				spans.push({
+					start: attr.valueStart + 1,
+					length: attr.valueEnd - attr.valueStart - 2,
+				})
+			}
+
+			spans.push({
+				start: attr.valueStart,
+				length: attr.valueEnd - attr.valueStart,
+			})
+		}
+
+		spans.push({
+			start: part.start,
+			length: part.end - part.start,
+		})
+
+		return spans
+	}
+
+	/** Get spans of start tag, element content and whole element, and all ancestral elements. */
+	function getHTMLNodeSpans(template: Template, temOffset: number): TS.TextSpan[] {
+		let region = template.embedded.getWholeTemplateRegion()
+		let regOffset = region.templateOffsetToLocal(temOffset)
+		let node: VSHTMLNode | undefined = region.htmlDocument!.findNodeAt(regOffset)
+		let spans: TS.TextSpan[] = []
+
+		// Root node has no tag.
+		while (node && node.tag !== undefined) {
+			let start = region.localOffsetToTemplate(node.start)
+			let end = region.localOffsetToTemplate(node.end)
+
+			if (node.startTagEnd !== undefined) {
+				let startTagEnd = region.localOffsetToTemplate(node.startTagEnd)
+
+				spans.push({
+					start,
+					length: startTagEnd - start,
+				})
+
+				if (node.endTagStart !== undefined) {
+					let endTagStart = region.localOffsetToTemplate(node.endTagStart)
+
+					spans.push({
+						start: startTagEnd,
+						length: endTagStart - startTagEnd,
+					})
+				}
+			}
+
+			spans.push({
+				start,
+				length: end - start,
+			})
+
+			node = node.parent
+		}
+
+		return spans
+	}
+
+	/** Link spans which contain offset from inner to outer, remove repetitive spans. */
+	function makeSelectionRange(spans: TS.TextSpan[], temOffset: number): TS.SelectionRange | undefined {
+		let containing = spans
+			.filter(span => span.start <= temOffset && span.start + span.length >= temOffset)
+			.sort((a, b) => a.length - b.length)
+
+		let range: TS.SelectionRange | undefined
+		let outerSpans: TS.TextSpan[] = []
+
+		for (let span of containing) {
+			let last = outerSpans[outerSpans.length - 1]
+
+			// Must contain inner span.
+			if (last && (span.start > last.start || span.start + span.length < last.start + last.length)) {
+				continue
+			}
+
+			// Repetitive.
+			if (last && span.start === last.start && span.length === last.length) {
+				continue
+			}
+
+			outerSpans.push(span)
+		}
+
+		for (let i = outerSpans.length - 1; i >= 0; i--) {
+			range = {
+				textSpan: outerSpans[i],
+				parent: range,
+			}
+		}
+
+		return range
+	}
+}
@@ -0,0 +1,259 @@
+import type * as TS from 'typescript'
+import {TokenType} from 'vscode-html-languageservice'
+import {SharedHTMLService} from '../shared-services/shared-html-css-services'
+import {HTMLNodeType} from '../lupos-ts-module'
+import {PluginConfig, PluginDiagnosticCode, ts} from '../core'
+import {Template} from './template'
+
+
+/** Tag item in the stack of opened tags. */
+interface OpenedTag {
+	name: string
+	start: number
+}
+
+
+/** Elements which should not be closed. */
+const VoidElements = new Set([
+	'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+	'link', 'meta', 'param', 'source', 'track', 'wbr',
+])
+
+/** Elements whose end tag can be omitted. */
+const OptionalEndTagElements = new Set([
+	'html', 'head', 'body', 'p', 'dt', 'dd', 'li', 'option', 'optgroup',
+	'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'colgroup', 'caption',
+	'rb', 'rt', 'rtc', 'rp',
+])
+
+
+/**
+ * Diagnose html syntax of html`...` templates,
+ * like unclosed, mismatched and stray tags, closed void tags and duplicate attributes.
+ */
+export namespace TemplateSyntaxDiagnostics {
+
+	/** Returned diagnostics are located in template local origin. */
+	export function diagnose(template: Template): TS.DiagnosticWithLocation[] {
+		return [
+			...diagnoseTags(template),
+			...diagnoseAttributes(template),
+		]
+	}
+
+	/**
+	 * Parsed html root has been auto-corrected, so scan raw content to pair start and end tags.
+	 * Note tag name of `<${Com}>` and `</${Com}>` are different slot placeholders,
+	 * and `</>` can close any tag.
+	 */
+	function diagnoseTags(template: Template): TS.DiagnosticWithLocation[] {
+		let diagnostics: TS.DiagnosticWithLocation[] = []
+		let scanner = SharedHTMLService.createScanner(template.content)
+		let stack: OpenedTag[] = []
+		let startTag: OpenedTag | null = null
+		let endTag: OpenedTag | null = null
+		let token = scanner.scan()
+
+		while (token !== TokenType.EOS) {
+			switch (token) {
+				case TokenType.StartTagOpen:
+					startTag = null
+					break
+
+				case TokenType.EndTagOpen:
+					endTag = {
+						name: '',
+						start: scanner.getTokenEnd(),
+					}
+					break
+
+				// `<div`
+				case TokenType.StartTag:
+					startTag = {
+						name: scanner.getTokenText(),
+						start: scanner.getTokenOffset(),
+					}
+					break
+
+				// `</div`
+				case TokenType.EndTag:
+					endTag = {
+						name: scanner.getTokenText(),
+						start: scanner.getTokenOffset(),
+					}
+					break
+
+				// `<$LUPOS_SLOT_INDEX_0$ ...` or `</$LUPOS_SLOT_INDEX_0$`.
+				case TokenType.Unknown: {
+					let text = scanner.getTokenText()
+					let placeholder = text.match(/^\$LUPOS_SLOT_INDEX_\d+\$/)?.[0]
+					if (!placeholder) {
+						break
+					}
+
+					if (endTag && !endTag.name) {
+						endTag.name = placeholder
+					}
+
+					// `<${Com} />` is not closed by self close token.
+					else if (!startTag && !text.trimEnd().endsWith('/')) {
+						startTag = {
+							name: placeholder,
+							start: scanner.getTokenOffset(),
+						}
+					}
+					break
+				}
+
+				case TokenType.StartTagSelfClose:
+					startTag = null
+					break
+
+				case TokenType.StartTagClose:
+					if (startTag && !VoidElements.has(startTag.name)) {
+						stack.push(startTag)
+					}
+
+					startTag = null
+					break
+
+				case TokenType.EndTagClose:
+					if (endTag) {
+						diagnostics.push(...closeTag(endTag, stack, template))
+					}
+
+					endTag = null
+					break
+			}
+
+			token = scanner.scan()
+		}
+
+		for (let tag of stack) {
+			if (!OptionalEndTagElements.has(tag.name)) {
+				diagnostics.push(makeDiagnostic(
+					template,
+					tag.start,
+					tag.name.length,
+					PluginDiagnosticCode.UnclosedTag,
+					`Element <${tag.name}> is not closed.`
+				))
+			}
+		}
+
+		return diagnostics
+	}
+
+	/** Pop opened tags to close an end tag. */
+	function closeTag(endTag: OpenedTag, stack: OpenedTag[], template: Template): TS.DiagnosticWithLocation[] {
+		let name = endTag.name
+
+		// `</br>`
+		if (VoidElements.has(name)) {
+			return [makeDiagnostic(
+				template,
+				endTag.start,
+				name.length,
+				PluginDiagnosticCode.ClosedVoidTag,
+				`Void element <${name}> should not be closed.`
+			)]
+		}
+
+		let index = stack.findLastIndex(tag => isTagMatch(tag.name, name))
+
+		// `</div>` without `<div>`.
+		if (index === -1) {
+			return [makeDiagnostic(
+				template,
+				endTag.start,
+				Math.max(name.length, 1),
+				PluginDiagnosticCode.StrayClosingTag,
+				`Closing tag </${name}> has no matching opening tag.`
+			)]
+		}
+
+		let unclosed = stack.splice(index).slice(1)
+			.filter(tag => !OptionalEndTagElements.has(tag.name))
+
+		// `<div><span></div>`.
+		if (unclosed.length > 0) {
+			let innermost = unclosed[unclosed.length - 1]
+
+			return [makeDiagnostic(
+				template,
+				endTag.start,
+				Math.max(name.length, 1),
+				PluginDiagnosticCode.MismatchedClosingTag,
+				`Closing tag </${name}> does not match opening tag <${innermost.name}>.`
+			)]
+		}
+
+		return []
+	}
+
+	/** Whether start tag name can be closed by end tag name. */
+	function isTagMatch(startName: string, endName: string): boolean {
+
+		// `</>`
+		if (!endName) {
+			return true
+		}
+
+		if (startName === endName) {
+			return true
+		}
+
+		return isSlotPlaceholder(startName) && isSlotPlaceholder(endName)
+	}
+
+	function isSlotPlaceholder(name: string): boolean {
+		return /^\$LUPOS_SLOT_INDEX_\d+\$$/.test(name)
+	}
+
+	/** Diagnose duplicate attributes of parsed tags. */
+	function diagnoseAttributes(template: Template): TS.DiagnosticWithLocation[] {
+		let diagnostics: TS.DiagnosticWithLocation[] = []
+
+		template.root.visit(node => {
+			if (node.type !== HTMLNodeType.Tag) {
+				return
+			}
+
+			let names: Set<string> = new Set()
+
+			for (let attr of node.attrs!) {
+
+				// `<div ${...}>`
+				if (attr.name.includes('$LUPOS_SLOT_INDEX_')) {
+					continue
+				}
+
+				if (names.has(attr.name)) {
+					diagnostics.push(makeDiagnostic(
+						template,
+						attr.start,
+						attr.name.length,
+						PluginDiagnosticCode.DuplicateAttribute,
+						`Duplicate attribute "${attr.name}".`
+					))
+				}
+
+				names.add(attr.name)
+			}
+		})
+
+		return diagnostics
+	}
+
+	function makeDiagnostic(template: Template, start: number, length: number, code: PluginDiagnosticCode, message: string): TS.DiagnosticWithLocation {
+		return {
+			code,
+			messageText: message,
+			category: ts.DiagnosticCategory.Error,
+			file: template.sourceFile,
+			start,
+			length,
+			source: PluginConfig.pluginName,
+		}
+	}
+}
@@ -1,6 +1,6 @@
 import type * as TS from 'typescript'
 import {ProjectContext} from '../core'
-import {TemplateBasis, TemplatePartParser, TemplatePart, TemplatePartType, ScopeTree, TemplateSlotPlaceholder, HTMLRoot} from '../lupos-ts-module'
+import {TemplateBasis, TemplatePartParser, TemplatePart, TemplatePartType, ScopeTree, TemplateSlotPlaceholder, HTMLRoot, HTMLNode} from '../lupos-ts-module'
 import {TemplateEmbeddedRegions} from './embedded-regions'
 import {Position} from 'vscode-languageserver-types'
 import {OriginTranslator} from './types'
@@ -105,6 +105,85 @@ export class Template extends TemplateBasis implements OriginTranslator {
 		return undefined
 	}
 
+	/** 
+	 * Get tag name ranges of a tag node, template local.
+	 * First is tag name range of start tag, second is tag name range of end tag if exists.
+	 */
+	getTagNameRanges(node: HTMLNode): TS.TextSpan[] {
+		let tagName = node.tagName!
+		let spans: TS.TextSpan[] = []
+
+		// `<|tagName`
+		if (this.content.slice(node.start + 1, node.start + 1 + tagName.length) !== tagName) {
+			return spans
+		}
+
+		spans.push({
+			start: node.start + 1,
+			length: tagName.length,
+		})
+
+		// `</|tagName>`
+		let endTag = '</' + tagName + '>'
+		let endTagStart = node.end - endTag.length
+
+		if (endTagStart > node.start && this.content.slice(endTagStart, node.end) === endTag) {
+			spans.push({
+				start: endTagStart + 2,
+				length: tagName.length,
+			})
+		}
+
+		return spans
+	}
+
+	/** Get main name range of a part, not include name prefix and modifiers, template local. */
+	getPartNameRange(part: TemplatePart): TS.TextSpan | undefined {
+		let mainName = part.mainName!
+		let start = part.start + (part.namePrefix?.length ?? 0)
+
+		if (!this.content.startsWith(mainName, start)) {
+			return undefined
+		}
+
+		return {
+			start,
+			length: mainName.length,
+		}
+	}
+
+	/** Get ranges of all the modifiers of a part, template local. */
+	getPartModifierRanges(part: TemplatePart): TS.TextSpan[] {
+		let nameRange = this.getPartNameRange(part)
+		if (!nameRange || !part.modifiers) {
+			return []
+		}
+
+		let spans: TS.TextSpan[] = []
+		let start = nameRange.start + nameRange.length
+
+		// `.modifier`
+		for (let modifier of part.modifiers) {
+			if (!this.content.startsWith('.' + modifier, start)) {
+				break
+			}
+
+			spans.push({
+				start: start + 1,
+				length: modifier.length,
+			})
+
+			start += modifier.length + 1
+		}
+
+		return spans
+	}
+
+	/** Get local offset of the placeholder `$LUPOS_SLOT_INDEX_n$` of a slot, returns `-1` if not found. */
+	getSlotPlaceholderOffset(valueIndex: number): number {
+		return this.content.indexOf('$LUPOS_SLOT_INDEX_' + valueIndex + '$')
+	}
+
 	/** Returns text document of whole template. */
 	get document() {
 		return this.embedded.getWholeTemplateRegion().document
@@ -122,6 +201,6 @@ export class Template extends TemplateBasis implements OriginTranslator {
 
 	/** Check whether a global offset inside current template range. */
 	intersectWith(globalStart: number, globalEnd: number): boolean {
-		return !(globalEnd < this.globalStart || globalStart > globalEnd)
+		return !(globalEnd < this.globalStart || globalStart > this.node.end)
 	}
 }
\ No newline at end of file
@@ -43,6 +43,7 @@ export interface TemplateLanguageService {
 		offset: number,
 	): TS.DefinitionInfoAndBoundSpan | undefined
 
+	/** Returned diagnostics should be located in template local origin. */
 	getSyntacticDiagnostics?(
 		template: Template
 	): TS.Diagnostic[]
@@ -52,6 +53,31 @@ export interface TemplateLanguageService {
 		modifier: DiagnosticModifier
 	): void
 
+	/** 
+	 * Filter typescript diagnostics which are located in template slots `${...}`,
+	 * diagnostics are located in global origin.
+	 */
+	filterSemanticDiagnostics?<D extends TS.Diagnostic>(
+		template: Template,
+		diagnostics: D[]
+	): D[]
+
+	/** 
+	 * Get quick info of a parameter of a function in template slot, like renderer of `<lu:for>`.
+	 * `textSpan` and returned quick info are located in global origin.
+	 */
+	getSlotParameterQuickInfo?(
+		template: Template,
+		parameter: TS.ParameterDeclaration,
+		textSpan: TS.TextSpan
+	): TS.QuickInfo | undefined
+
+	/** Modify diagnostics which are located in source file but not in templates. */
+	modifySourceFileSemanticDiagnostics?(
+		sourceFile: TS.SourceFile,
+		modifier: DiagnosticModifier
+	): void
+
 	getFormattingEditsForRange?(
 		template: Template,
 		start: number,
@@ -70,6 +96,36 @@ export interface TemplateLanguageService {
 		preferences: TS.UserPreferences
 	): TS.CodeFixAction[]
 
+	/** 
+	 * Get code fixes which are located in source file but not in templates.
+	 * `start`, `end` and returned code fixes are located in global origin.
+	 */
+	getSourceFileCodeFixesAtPosition?(
+		sourceFile: TS.SourceFile,
+		start: number,
+		end: number,
+		errorCodes: ReadonlyArray<number>,
+		formatOptions: TS.FormatCodeSettings,
+		preferences: TS.UserPreferences
+	): TS.CodeFixAction[]
+
+	/** 
+	 * Get code fixes which are located in template slots, like renderer of `<lu:for>`.
+	 * `start`, `end` and returned code fixes are located in global origin.
+	 */
+	getSlotCodeFixesAtPosition?(
+		template: Template,
+		start: number,
+		end: number,
+		errorCodes: ReadonlyArray<number>,
+		formatOptions: TS.FormatCodeSettings,
+		preferences: TS.UserPreferences
+	): TS.CodeFixAction[]
+
+	/** 
+	 * `offset` may also be the local offset of a slot placeholder,
+	 * when querying signature help inside `${...}`.
+	 */
 	getSignatureHelpItemsAtPosition?(
 		template: Template,
 		offset: number,
@@ -80,11 +136,92 @@ export interface TemplateLanguageService {
 		template: Template
 	): TS.OutliningSpan[]
 
+	/** Returned references should be fit with global document. */
 	getReferencesAtPosition?(
 		template: Template,
 		offset: number,
 	): TS.ReferencedSymbol[] | undefined
 
+	/** 
+	 * Merge template references to typescript references of a typescript declaration or reference,
+	 * `offset` is the global offset, returned references should be fit with global document.
+	 */
+	mergeTemplateReferences?(
+		fileName: string,
+		offset: number,
+		symbols: TS.ReferencedSymbol[]
+	): TS.ReferencedSymbol[]
+
+	/** 
+	 * Get names of imported or declared identifiers which are referenced by template,
+	 * like `<Com>` and `:binding`, they should not be treated as unused.
+	 */
+	getReferencedNames?(
+		template: Template
+	): string[]
+
+	getRenameInfo?(
+		template: Template,
+		offset: number,
+		preferences: TS.UserPreferences
+	): TS.RenameInfo | undefined
+
+	/** Returned locations should be fit with global document. */
+	findRenameLocations?(
+		template: Template,
+		offset: number,
+		preferences: TS.UserPreferences
+	): TS.RenameLocation[] | undefined
+
+	/** 
+	 * Find rename locations inside templates for a typescript declaration or reference,
+	 * `offset` is the global offset, returned locations should be fit with global document.
+	 */
+	findTemplateRenameLocations?(
+		fileName: string,
+		offset: number
+	): TS.RenameLocation[]
+
+	/** 
+	 * Returns triples of `start, length, classification`,
+	 * classification is encoded in typescript 2020 semantic classification format.
+	 */
+	getEncodedSemanticClassifications?(
+		template: Template
+	): number[]
+
+	/** Returned inlay hints should be fit with global document. */
+	provideInlayHints?(
+		template: Template
+	): TS.InlayHint[]
+
+	getLinkedEditingRangeAtPosition?(
+		template: Template,
+		offset: number
+	): TS.LinkedEditingInfo | undefined
+
+	/** Returned selection ranges should be located in template local origin, from inner to outer. */
+	getSmartSelectionRange?(
+		template: Template,
+		offset: number
+	): TS.SelectionRange | undefined
+
+	/** 
+	 * Returns navigation items of template, will be appended to original navigation tree.
+	 * Returned spans should be located in template local origin.
+	 */
+	getNavigationTree?(
+		template: Template
+	): TS.NavigationTree[]
+
+	/** 
+	 * Search lupos items of whole workspace by name,
+	 * returned items should be fit with global document.
+	 */
+	getNavigateToItems?(
+		searchValue: string
+	): TS.NavigateToItem[]
+
 	getJsxClosingTagAtPosition?(
 		template: Template,
 		offset: number,
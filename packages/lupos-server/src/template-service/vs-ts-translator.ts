@@ -347,17 +347,18 @@ export namespace VS2TSTranslator {
 	}
 
 	
+	/** Will be translated to global. */
 	export function translateVSHighlightsToReferenceSymbol(
 		highlights: vscode.DocumentHighlight[],
-		fileName: string, 
 		position: vscode.Position,
-		origin: OriginTranslator
+		origin: OriginTranslator,
+		template: Template
 	): TS.ReferencedSymbol[] {
-		let references: TS.ReferenceEntry[] = highlights.map(highlight => {
-			let textSpan = toTSTextSpan(highlight.range, origin)
-			let start = origin.localOffsetToTemplate(textSpan.start)
+		let fileName = template.fileName
 
-			textSpan.start = start
+		let references: TS.ReferencedSymbolEntry[] = highlights.map(highlight => {
+			let textSpan = toTSTextSpan(highlight.range, origin)
+			textSpan.start = template.localOffsetToGlobal(textSpan.start)
 
 			return {
 				isWriteAccess: false,
@@ -367,7 +368,7 @@ export namespace VS2TSTranslator {
 			}
 		})
 
-		let start = origin.localOffsetToTemplate(origin.localPositionToOffset(position))
+		let start = template.localOffsetToGlobal(origin.localOffsetToTemplate(origin.localPositionToOffset(position)))
 		
 		let definitionSpan: TS.TextSpan = {
 			start: start,